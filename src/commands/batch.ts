@@ -0,0 +1,273 @@
+import { existsSync, statSync } from 'fs';
+import { mkdir, stat, writeFile } from 'fs/promises';
+import { basename, dirname, extname, join, resolve } from 'path';
+import chalk from 'chalk';
+import pLimit from 'p-limit';
+import { ProgressReporter } from '../utils/progress';
+import { formatDuration } from '../utils/format';
+import { handleInterrupts, INTERRUPTED_EXIT_CODE } from '../utils/interrupt';
+import { expandGlob, hasGlobChars, listFiles } from '../utils/glob';
+import { isSupportedExtension } from '../lib/audio';
+import { ChapterFormat, CHAPTER_FORMATS, isChapterFormat } from '../lib/chapters';
+import { ChunkFailure } from '../lib/types';
+import { createProvider, isUrl, runTranscription, SharedResources, TranscribeOptions } from './transcribe';
+import { formatStats } from './report';
+import { getOutputExtension } from './output';
+import { checkEstimate } from './estimate';
+
+export interface BatchOptions extends TranscribeOptions {
+  outputDir?: string;
+  nameTemplate: string;
+  manifest?: string;
+  skipExisting: boolean;
+  jobs: number;
+  recursive: boolean;
+}
+
+export type BatchStatus = 'done' | 'failed' | 'skipped';
+
+export interface ManifestEntry {
+  input: string;
+  status: BatchStatus;
+  output?: string;
+  chaptersFile?: string;
+  duration?: number;      // Length of the audio in seconds
+  elapsed?: number;       // Processing time in seconds
+  error?: string;
+  failures?: ChunkFailure[];  // Chunks that did not complete (--continue-on-error)
+}
+
+export interface BatchManifest {
+  startedAt: string;
+  finishedAt: string;
+  outputDir: string;
+  summary: Record<BatchStatus, number>;
+  inputs: ManifestEntry[];
+}
+
+export const DEFAULT_NAME_TEMPLATE = '{name}.{ext}';
+
+const CHAPTER_EXTENSIONS: Record<ChapterFormat, string> = {
+  json: 'chapters.json',
+  youtube: 'chapters.txt',
+  markdown: 'chapters.md',
+  ffmetadata: 'ffmeta'
+};
+
+// Chapters file written next to an output file
+export function chaptersPathFor(outputPath: string, format: ChapterFormat): string {
+  return `${outputPath.slice(0, outputPath.length - extname(outputPath).length)}.${CHAPTER_EXTENSIONS[format]}`;
+}
+
+// Whether the arguments need batch mode rather than a single transcription
+export function isBatchInvocation(inputs: string[], options: Partial<BatchOptions>): boolean {
+  if (inputs.length !== 1 || options.outputDir) return true;
+  const [input] = inputs;
+  if (isUrl(input)) return false;
+  if (existsSync(input)) return statSync(input).isDirectory();
+  return hasGlobChars(input);
+}
+
+/**
+ * Expand files, directories (supported audio extensions only) and glob patterns
+ * into a de-duplicated list of inputs. Arguments that match nothing are kept so
+ * they show up as failures in the manifest.
+ */
+export async function expandInputs(args: string[], recursive: boolean): Promise<string[]> {
+  const inputs: string[] = [];
+  const seen = new Set<string>();
+  const add = (input: string) => {
+    const key = isUrl(input) ? input : resolve(input);
+    if (!seen.has(key)) {
+      seen.add(key);
+      inputs.push(input);
+    }
+  };
+  const isAudio = (file: string) => isSupportedExtension(extname(file).slice(1));
+
+  for (const arg of args) {
+    if (isUrl(arg)) {
+      add(arg);
+    } else if (existsSync(arg)) {
+      if ((await stat(arg)).isDirectory()) {
+        (await listFiles(arg, recursive)).filter(isAudio).forEach(add);
+      } else {
+        add(arg);
+      }
+    } else if (hasGlobChars(arg)) {
+      const matches = await expandGlob(arg);
+      if (matches.length === 0) {
+        add(arg);
+      }
+      matches.filter(isAudio).forEach(add);
+    } else {
+      add(arg);
+    }
+  }
+
+  return inputs;
+}
+
+// File name of an input without its extension, for URLs the last path segment
+function inputName(input: string): string {
+  const path = isUrl(input) ? new URL(input).pathname : input;
+  return basename(path, extname(path)) || 'audio';
+}
+
+/**
+ * Build an output file name from the template
+ * {name} input file name without extension, {ext} output extension,
+ * {index} position in the batch (1-based), {dir} name of the input's directory
+ */
+export function renderOutputName(template: string, input: string, index: number, ext: string): string {
+  const dir = isUrl(input) ? new URL(input).hostname : basename(dirname(resolve(input)));
+  return template
+    .replace(/\{name\}/g, inputName(input))
+    .replace(/\{ext\}/g, ext)
+    .replace(/\{index\}/g, String(index))
+    .replace(/\{dir\}/g, dir);
+}
+
+export async function batchCommand(args: string[], options: BatchOptions): Promise<void> {
+  const progress = new ProgressReporter(options.quiet);
+  const interrupts = handleInterrupts();
+  const startedAt = new Date();
+
+  try {
+    if (options.output) {
+      throw new Error('--output only supports a single input, use --output-dir for multiple inputs');
+    }
+    if (options.chaptersFile) {
+      throw new Error('--chapters-file only supports a single input, use --chapters-format to write one chapters file per input');
+    }
+    if (options.chaptersFormat && !isChapterFormat(options.chaptersFormat)) {
+      throw new Error(`Unknown chapters format: ${options.chaptersFormat} (expected ${CHAPTER_FORMATS.join(', ')})`);
+    }
+    if (!Number.isInteger(options.jobs) || options.jobs < 1) {
+      throw new Error(`Jobs must be a positive integer: ${options.jobs}`);
+    }
+
+    const inputs = await expandInputs(args, options.recursive);
+    if (inputs.length === 0) {
+      throw new Error('No audio files found');
+    }
+
+    const outputDir = resolve(options.outputDir ?? '.');
+    const manifestPath = options.manifest ?? join(outputDir, 'manifest.json');
+    const ext = getOutputExtension(options.outputFormat);
+    const outputPaths = inputs.map((input, i) => join(outputDir, renderOutputName(options.nameTemplate, input, i + 1, ext)));
+    const collision = outputPaths.find((path, i) => outputPaths.indexOf(path) !== i);
+    if (collision) {
+      throw new Error(`Several inputs would be written to ${collision}, add {dir} or {index} to --name-template`);
+    }
+
+    // One provider and one request budget for every input
+    const provider = createProvider(options);
+    const shared: SharedResources = {
+      provider,
+      limit: pLimit(Math.min(options.concurrency, provider.maxConcurrency ?? Infinity))
+    };
+
+    const planned = inputs.filter((input, i) => !(options.skipExisting && existsSync(outputPaths[i])));
+    if (await checkEstimate(planned, { ...options, signal: interrupts.signal }, progress, shared)) {
+      return;
+    }
+    await mkdir(outputDir, { recursive: true });
+
+    progress.info(`Transcribing ${inputs.length} inputs into ${outputDir} (${options.jobs} at a time)`);
+
+    const jobs = pLimit(options.jobs);
+    let finished = 0;
+    const entries = await Promise.all(inputs.map((input, i) => jobs(async (): Promise<ManifestEntry> => {
+      const outputPath = outputPaths[i];
+      const chaptersFile = options.chaptersFormat
+        ? chaptersPathFor(outputPath, options.chaptersFormat as ChapterFormat)
+        : undefined;
+      const label = `[${i + 1}/${inputs.length}] ${input}`;
+
+      if (interrupts.signal.aborted) {
+        return { input, status: 'failed', error: 'Interrupted before it started' };
+      }
+
+      if (options.skipExisting && existsSync(outputPath)) {
+        finished++;
+        progress.info(`${label} skipped, ${outputPath} exists`);
+        return { input, status: 'skipped', output: outputPath };
+      }
+
+      const started = Date.now();
+      try {
+        // Per-input progress would interleave, only the batch reports
+        const { output, data, duration, failures } = await runTranscription(
+          input,
+          { ...options, chaptersFile, signal: interrupts.signal },
+          new ProgressReporter(true),
+          undefined,
+          shared
+        );
+        await mkdir(dirname(outputPath), { recursive: true });
+        await writeFile(outputPath, output, 'utf-8');
+
+        finished++;
+        const length = duration !== undefined ? ` (${formatDuration(duration)})` : '';
+        // Unformatted chunks still have their text, only gaps are missing audio
+        const gaps = failures?.filter(failure => failure.stage === 'transcription').length ?? 0;
+        const incomplete = gaps > 0 ? chalk.yellow(` ${gaps} ${gaps === 1 ? 'chunk' : 'chunks'} incomplete,`) : '';
+        progress.info(`${chalk.green('done')} ${label}${length}${incomplete} -> ${outputPath} [${finished}/${inputs.length}]`);
+        if (options.stats && data.run) {
+          console.error(formatStats(data.run));
+        }
+        return {
+          input,
+          status: 'done',
+          output: outputPath,
+          chaptersFile,
+          duration,
+          elapsed: Math.round((Date.now() - started) / 100) / 10,
+          failures
+        };
+      } catch (error) {
+        finished++;
+        const message = error instanceof Error ? error.message.trim() : 'Unknown error';
+        progress.warn(`${chalk.red('failed')} ${label}: ${message.split('\n')[0]} [${finished}/${inputs.length}]`);
+        return {
+          input,
+          status: 'failed',
+          elapsed: Math.round((Date.now() - started) / 100) / 10,
+          error: message
+        };
+      }
+    })));
+
+    const summary: Record<BatchStatus, number> = { done: 0, failed: 0, skipped: 0 };
+    entries.forEach(entry => summary[entry.status]++);
+
+    const manifest: BatchManifest = {
+      startedAt: startedAt.toISOString(),
+      finishedAt: new Date().toISOString(),
+      outputDir,
+      summary,
+      inputs: entries
+    };
+    await writeFile(manifestPath, JSON.stringify(manifest, null, 2), 'utf-8');
+
+    const color = summary.failed > 0 ? chalk.yellow : chalk.green;
+    const interrupted = interrupts.signal.aborted ? 'Interrupted: ' : '';
+    console.log(color(`\n${interrupted}${summary.done} done, ${summary.failed} failed, ${summary.skipped} skipped. Manifest: ${manifestPath}`));
+    if (interrupts.signal.aborted) {
+      process.exit(INTERRUPTED_EXIT_CODE);
+    }
+    if (summary.failed > 0) {
+      process.exit(1);
+    }
+
+  } catch (error) {
+    progress.fail('Operation failed');
+    console.error(
+      chalk.red(`\nError: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    );
+    process.exit(1);
+  } finally {
+    interrupts.dispose();
+  }
+}
@@ -0,0 +1,37 @@
+import chalk from 'chalk';
+import { formatBytes } from '../utils/format';
+import { clearCache, getCacheDir, listCacheEntries } from '../lib/cache';
+
+export async function cacheListCommand(): Promise<void> {
+  const entries = await listCacheEntries();
+
+  console.log(chalk.blue(`Cache directory: ${getCacheDir()}`));
+  if (entries.length === 0) {
+    console.log('Cache is empty');
+    return;
+  }
+
+  for (const entry of entries) {
+    console.log(
+      `${chalk.cyan(entry.hash.slice(0, 12))}  ${entry.chunks.toString().padStart(4)} chunks  ${formatBytes(entry.diskSize).padStart(9)}  ${entry.updatedAt.toISOString()}  ${entry.source}`
+    );
+  }
+
+  const totalSize = entries.reduce((sum, entry) => sum + entry.diskSize, 0);
+  console.log(`\n${entries.length} entries, ${formatBytes(totalSize)}`);
+}
+
+export async function cacheClearCommand(hash?: string): Promise<void> {
+  try {
+    const removed = await clearCache(hash);
+    if (hash && removed === 0) {
+      throw new Error(`No cache entry matches: ${hash}`);
+    }
+    console.log(chalk.green(`Removed ${removed} cache ${removed === 1 ? 'entry' : 'entries'}`));
+  } catch (error) {
+    console.error(
+      chalk.red(`\nError: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    );
+    process.exit(1);
+  }
+}
@@ -0,0 +1,43 @@
+import { resolve } from 'path';
+import chalk from 'chalk';
+import { formatBytes } from '../utils/format';
+import { getTempDir, listTempSessions, removeOrphanedSession } from '../lib/temp';
+
+export interface CleanupOptions {
+  dir?: string;
+  dryRun: boolean;
+}
+
+export async function cleanupCommand(options: CleanupOptions): Promise<void> {
+  try {
+    const dir = resolve(options.dir ?? getTempDir());
+    const sessions = await listTempSessions(dir);
+    const orphaned = sessions.filter(session => session.orphaned);
+
+    console.log(chalk.blue(`Temp directory: ${dir}`));
+    if (orphaned.length === 0) {
+      const running = sessions.length > 0 ? ` (${sessions.length} in use)` : '';
+      console.log(`No orphaned sessions${running}`);
+      return;
+    }
+
+    for (const session of orphaned) {
+      const owner = session.pid !== undefined ? `pid ${session.pid}` : 'unknown pid';
+      console.log(
+        `${chalk.cyan(session.id.slice(0, 8))}  ${formatBytes(session.size).padStart(9)}  ${session.createdAt.toISOString()}  ${owner}`
+      );
+      if (!options.dryRun) {
+        await removeOrphanedSession(session);
+      }
+    }
+
+    const totalSize = orphaned.reduce((sum, session) => sum + session.size, 0);
+    const what = `${orphaned.length} orphaned ${orphaned.length === 1 ? 'session' : 'sessions'}, ${formatBytes(totalSize)}`;
+    console.log(options.dryRun ? `\nWould remove ${what}` : chalk.green(`\nRemoved ${what}`));
+  } catch (error) {
+    console.error(
+      chalk.red(`\nError: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    );
+    process.exit(1);
+  }
+}
@@ -0,0 +1,169 @@
+import chalk from 'chalk';
+import { Command } from 'commander';
+import {
+  ConfigScope,
+  DEFAULT_PROFILE,
+  Settings,
+  SettingKey,
+  SETTING_ENV,
+  SETTING_KEYS,
+  displaySettingValue,
+  getConfigPath,
+  isSettingKey,
+  loadConfig,
+  parseSettingValue,
+  resolveSettings,
+  saveConfig
+} from '../lib/config';
+
+export interface ConfigScopeOptions {
+  profile?: string;
+  local?: boolean;
+}
+
+export interface ConfigListOptions {
+  profile?: string;
+  resolved?: boolean;
+}
+
+// Command-line option carrying each setting on the transcription commands
+const SETTING_OPTIONS: Partial<Record<SettingKey, string>> = {
+  provider: 'provider',
+  transcriptionModel: 'model',
+  chatModel: 'chatModel',
+  contextTokens: 'contextTokens',
+  concurrency: 'concurrency',
+  chunkDuration: 'chunkDuration',
+  language: 'language',
+  outputFormat: 'outputFormat'
+};
+
+function printError(error: unknown): never {
+  console.error(
+    chalk.red(`\nError: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  );
+  process.exit(1);
+}
+
+function parseKey(key: string): SettingKey {
+  if (!isSettingKey(key)) {
+    throw new Error(`Unknown setting: ${key} (expected ${SETTING_KEYS.join(', ')})`);
+  }
+  return key;
+}
+
+/**
+ * Fill the options of a transcription command from the resolved settings
+ * (preAction hook). Flags given on the command line keep their value.
+ */
+export function applySettings(command: Command): void {
+  try {
+    const options = command.opts();
+    const flags: Partial<Record<SettingKey, unknown>> = {};
+    for (const [key, optionName] of Object.entries(SETTING_OPTIONS) as [SettingKey, string][]) {
+      if (command.getOptionValueSource(optionName) === 'cli') {
+        flags[key] = options[optionName];
+      }
+    }
+
+    const { values } = resolveSettings(flags as Partial<Settings>, options.profile);
+    for (const [key, optionName] of Object.entries(SETTING_OPTIONS) as [SettingKey, string][]) {
+      command.setOptionValueWithSource(optionName, values[key], 'config');
+    }
+    command.setOptionValueWithSource('apiKey', values.apiKey, 'config');
+    command.setOptionValueWithSource('baseUrl', values.baseUrl, 'config');
+  } catch (error) {
+    printError(error);
+  }
+}
+
+export async function configGetCommand(key: string, options: ConfigScopeOptions): Promise<void> {
+  try {
+    const settingKey = parseKey(key);
+    const { values } = resolveSettings({}, options.profile);
+    const value = values[settingKey];
+    if (value !== undefined) {
+      console.log(String(value));
+    }
+  } catch (error) {
+    printError(error);
+  }
+}
+
+export async function configSetCommand(key: string, value: string, options: ConfigScopeOptions): Promise<void> {
+  try {
+    const settingKey = parseKey(key);
+    const scope: ConfigScope = options.local ? 'project' : 'user';
+    const config = await loadConfig(scope);
+    const profile = options.profile || config.activeProfile || DEFAULT_PROFILE;
+
+    config.profiles[profile] = {
+      ...config.profiles[profile],
+      [settingKey]: parseSettingValue(settingKey, value)
+    };
+    const path = await saveConfig(scope, config);
+
+    console.log(chalk.green(`Set ${settingKey} = ${displaySettingValue(settingKey, config.profiles[profile][settingKey])} (profile ${profile}, ${path})`));
+  } catch (error) {
+    printError(error);
+  }
+}
+
+export async function configUseCommand(profile: string, options: ConfigScopeOptions): Promise<void> {
+  try {
+    const [user, project] = await Promise.all([loadConfig('user'), loadConfig('project')]);
+    if (profile !== DEFAULT_PROFILE && !(profile in user.profiles) && !(profile in project.profiles)) {
+      throw new Error(`Unknown profile: ${profile} (create it with "pt config set <key> <value> --profile ${profile}")`);
+    }
+
+    const scope: ConfigScope = options.local ? 'project' : 'user';
+    const config = scope === 'user' ? user : project;
+    config.activeProfile = profile;
+    const path = await saveConfig(scope, config);
+
+    console.log(chalk.green(`Active profile: ${profile} (${path})`));
+    if (scope === 'user' && project.activeProfile && project.activeProfile !== profile) {
+      console.log(chalk.yellow(`Note: ${getConfigPath('project')} selects profile ${project.activeProfile} in this directory`));
+    }
+  } catch (error) {
+    printError(error);
+  }
+}
+
+export async function configListCommand(options: ConfigListOptions): Promise<void> {
+  try {
+    if (options.resolved) {
+      const { profile, values, sources } = resolveSettings({}, options.profile);
+      console.log(chalk.blue(`Profile: ${profile}`));
+      console.log(chalk.gray('Precedence: flag > env > project > user > default\n'));
+      for (const key of SETTING_KEYS) {
+        const source = sources[key] === 'env' ? `env ${SETTING_ENV[key]}` : sources[key];
+        console.log(`${key.padEnd(20)} ${displaySettingValue(key, values[key]).padEnd(30)} ${chalk.gray(source)}`);
+      }
+      return;
+    }
+
+    for (const scope of ['user', 'project'] as ConfigScope[]) {
+      const config = await loadConfig(scope);
+      console.log(chalk.blue(`${scope === 'user' ? 'User' : 'Project'} config: ${getConfigPath(scope)}`));
+
+      const names = Object.keys(config.profiles);
+      if (names.length === 0) {
+        console.log('  (no profiles)');
+      }
+      for (const name of names) {
+        const active = name === config.activeProfile ? chalk.green(' (active)') : '';
+        console.log(`  ${chalk.cyan(name)}${active}`);
+        for (const [key, value] of Object.entries(config.profiles[name])) {
+          const label = isSettingKey(key) ? displaySettingValue(key, value) : String(value);
+          console.log(`    ${key.padEnd(20)} ${label}`);
+        }
+      }
+      if (config.activeProfile && !names.includes(config.activeProfile)) {
+        console.log(`  active profile: ${config.activeProfile}`);
+      }
+    }
+  } catch (error) {
+    printError(error);
+  }
+}
@@ -0,0 +1,89 @@
+import { readFile, writeFile } from 'fs/promises';
+import { resolve } from 'path';
+import chalk from 'chalk';
+import {
+  detectSubtitleFormat,
+  parseSubtitles,
+  transformTimes,
+  SubtitleInputFormat
+} from '../lib/subtitles';
+import { TemplateSummary } from '../lib/summary';
+import { OutputFormat, OutputMetadata, OUTPUT_FORMATS, isOutputFormat, formatOutput } from './output';
+
+export interface ConvertOptions {
+  to: OutputFormat;
+  from?: SubtitleInputFormat;
+  output?: string;
+  shift?: number;
+  scale?: number;
+  language?: string;
+}
+
+const INPUT_FORMATS: SubtitleInputFormat[] = ['srt', 'vtt', 'json'];
+
+// Transcript, summary and metadata of a pt JSON output, when the input is one
+interface JsonExtras {
+  transcript?: string;
+  summary?: string;
+  summaries?: TemplateSummary[];
+  metadata?: OutputMetadata;
+}
+
+function readJsonExtras(content: string): JsonExtras {
+  const data = JSON.parse(content) as unknown;
+  if (Array.isArray(data) || typeof data !== 'object' || data === null) {
+    return {};
+  }
+  const { transcript, summary, summaries, metadata } = data as JsonExtras;
+  return { transcript, summary, summaries, metadata };
+}
+
+export async function convertCommand(
+  input: string,
+  options: ConvertOptions
+): Promise<void> {
+  try {
+    if (!isOutputFormat(options.to)) {
+      throw new Error(`Unknown output format: ${options.to} (expected ${OUTPUT_FORMATS.join(', ')})`);
+    }
+    if (options.from && !INPUT_FORMATS.includes(options.from)) {
+      throw new Error(`Unknown input format: ${options.from} (expected ${INPUT_FORMATS.join(', ')})`);
+    }
+
+    const filePath = resolve(input);
+    const content = await readFile(filePath, 'utf-8');
+    const inputFormat = options.from ?? detectSubtitleFormat(content, filePath);
+
+    const parsed = parseSubtitles(content, inputFormat);
+    const entries = transformTimes(parsed, { shift: options.shift, scale: options.scale });
+    const extras = inputFormat === 'json' ? readJsonExtras(content) : {};
+
+    // A shifted timeline keeps the original transcript text if there is one
+    const transcript = extras.transcript ?? entries.map(entry => entry.text.replace(/\n/g, ' ')).join(' ');
+
+    const output = formatOutput(
+      {
+        transcript,
+        summary: extras.summary ?? null,
+        summaries: extras.summaries,
+        entries,
+        metadata: extras.metadata,
+        language: options.language
+      },
+      options.to
+    );
+
+    if (options.output) {
+      await writeFile(options.output, output, 'utf-8');
+      console.log(chalk.green(`Converted ${entries.length} cues (${inputFormat} -> ${options.to}): ${options.output}`));
+    } else {
+      console.log(output);
+    }
+
+  } catch (error) {
+    console.error(
+      chalk.red(`\nError: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    );
+    process.exit(1);
+  }
+}
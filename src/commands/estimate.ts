@@ -0,0 +1,185 @@
+import { existsSync } from 'fs';
+import { basename, resolve } from 'path';
+import chalk from 'chalk';
+import { formatDuration } from '../utils/format';
+import { ProgressReporter } from '../utils/progress';
+import { planTranscription, TranscriptionPlan } from '../lib/transcription';
+import { combineEstimates, CostEstimate, estimateCost, getPricesPath, loadPrices, PriceTable, StageEstimate } from '../lib/estimate';
+import {
+  checkTranscribeOptions,
+  createProvider,
+  getCacheMode,
+  getDownloadOptions,
+  getPreprocessOptions,
+  getUploadLimit,
+  isUrl,
+  SharedResources,
+  TranscribeOptions,
+  useSegmentFlow
+} from './transcribe';
+import { needsTimeline } from './output';
+
+export interface InputEstimate {
+  input: string;
+  plan: TranscriptionPlan;
+  estimate: CostEstimate;
+}
+
+/**
+ * Plan one input and estimate the requests of the stages runTranscription would run
+ */
+export async function estimateInput(
+  input: string,
+  options: TranscribeOptions,
+  prices: PriceTable,
+  shared?: SharedResources
+): Promise<InputEstimate> {
+  checkTranscribeOptions(options);
+
+  const timeline = needsTimeline(options.outputFormat);
+  const wantChapters = options.chapters || Boolean(options.chaptersFile || options.chaptersFormat);
+  const provider = shared?.provider ?? createProvider(options);
+  const needSrt = useSegmentFlow({ ...options, chapters: wantChapters }, provider);
+  const templates = options.summaryTemplate?.length ?? 0;
+  const wantSummary = (options.summary || templates > 0) && !timeline;
+
+  const path = isUrl(input) ? input : resolve(input);
+  if (!isUrl(input) && !existsSync(path)) {
+    throw new Error(`File not found: ${path}`);
+  }
+
+  const plan = await planTranscription(path, {
+    language: options.language,
+    chunkDuration: options.chunkDuration,
+    splitStrategy: options.splitStrategy,
+    overlap: options.overlap,
+    concurrency: options.concurrency,
+    provider,
+    outputFormat: needSrt ? 'srt' : 'text',
+    wordTimestamps: options.wordTimestamps,
+    formatText: !timeline,
+    chatModel: options.chatModel,
+    preprocess: getPreprocessOptions(options),
+    maxUploadBytes: getUploadLimit(options),
+    cache: getCacheMode(options),
+    download: isUrl(input) ? getDownloadOptions(options) : undefined,
+    signal: options.signal
+  });
+
+  const estimate = estimateCost({
+    model: plan.provider.model,
+    local: plan.provider.local,
+    chatModel: options.chatModel,
+    contextTokens: options.contextTokens,
+    totalMinutes: plan.duration / 60,
+    pendingMinutes: plan.pendingDuration / 60,
+    pendingChunks: plan.chunks.length - plan.cached,
+    formatting: !timeline,
+    summaryTemplates: wantSummary ? Math.max(templates, 1) : 0,
+    chapters: wantChapters,
+    translateText: Boolean(options.translateTo) && !timeline,
+    translateEntries: Boolean(options.translateTo) && needSrt && (timeline || options.outputFormat === 'json')
+  }, prices);
+
+  return { input, plan, estimate };
+}
+
+export function formatCost(cost: number): string {
+  return `$${cost < 1 ? cost.toFixed(3) : cost.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+function describeStage(stage: StageEstimate): string {
+  const calls = `${stage.calls} ${stage.calls === 1 ? 'request' : 'requests'}`;
+  const usage = stage.minutes !== undefined
+    ? `${stage.minutes.toFixed(1)} min`
+    : `~${formatTokens(stage.inputTokens ?? 0)} in / ~${formatTokens(stage.outputTokens ?? 0)} out`;
+  const cost = stage.cost !== undefined ? formatCost(stage.cost) : chalk.yellow('no price');
+  return `  ${stage.stage.padEnd(14)}${calls.padEnd(14)}${usage.padEnd(26)}${stage.model.padEnd(24)}${cost}`;
+}
+
+function describeChunks(plan: TranscriptionPlan): string {
+  const cached = plan.cached > 0 ? ` (${plan.cached} cached)` : '';
+  return `${plan.chunks.length} ${plan.chunks.length === 1 ? 'chunk' : 'chunks'}${cached}`;
+}
+
+/**
+ * Print the plan of one input, or one line per input and the totals of a batch
+ */
+export function printEstimates(inputs: InputEstimate[], total: CostEstimate): void {
+  if (inputs.length === 1) {
+    const [{ input, plan }] = inputs;
+    console.log(chalk.blue(`Plan for ${isUrl(input) ? input : basename(input)}`));
+    console.log(`  Audio ${formatDuration(plan.duration)}, ${describeChunks(plan)}, ${plan.concurrency} at a time (${plan.provider.name}:${plan.provider.model})`);
+  } else {
+    console.log(chalk.blue(`Plan for ${inputs.length} inputs`));
+    for (const { input, plan, estimate } of inputs) {
+      console.log(`  ${formatDuration(plan.duration).padStart(8)}  ${describeChunks(plan).padEnd(22)}${formatCost(estimate.cost).padStart(9)}  ${input}`);
+    }
+    const duration = inputs.reduce((sum, { plan }) => sum + plan.duration, 0);
+    console.log(`\n  Audio ${formatDuration(duration)} in total`);
+  }
+
+  if (total.stages.length === 0) {
+    console.log('  Every chunk is cached, no API requests needed');
+  }
+  total.stages.forEach(stage => console.log(describeStage(stage)));
+
+  const requests = total.stages.reduce((sum, stage) => sum + stage.calls, 0);
+  console.log(chalk.green(`\nEstimated cost: ${formatCost(total.cost)} for ${requests} API requests`) + ' (rough, chat outputs counted at their limits)');
+  if (total.unpriced.length > 0) {
+    console.log(chalk.yellow(`No price for ${total.unpriced.join(', ')}, add it to ${getPricesPath()}`));
+  }
+}
+
+/**
+ * Refuse to start when the estimate is over --max-cost, or cannot be priced
+ */
+export function checkMaxCost(total: CostEstimate, maxCost: number): void {
+  if (total.unpriced.length > 0) {
+    throw new Error(`Cannot check --max-cost, no price for ${total.unpriced.join(', ')} (add it to ${getPricesPath()})`);
+  }
+  if (total.cost > maxCost) {
+    throw new Error(`Estimated cost ${formatCost(total.cost)} is over --max-cost ${formatCost(maxCost)} (run with --dry-run to see the plan)`);
+  }
+}
+
+/**
+ * --dry-run and --max-cost: plan every input before anything is sent.
+ * Returns true for a dry run, after which nothing is transcribed.
+ */
+export async function checkEstimate(
+  inputs: string[],
+  options: TranscribeOptions,
+  progress: ProgressReporter,
+  shared?: SharedResources
+): Promise<boolean> {
+  if (!options.dryRun && options.maxCost === undefined) {
+    return false;
+  }
+  if (options.maxCost !== undefined && !(options.maxCost >= 0)) {
+    throw new Error(`Max cost must be a non-negative amount in USD: ${options.maxCost}`);
+  }
+
+  const prices = await loadPrices();
+  const estimates: InputEstimate[] = [];
+  progress.start('Planning...');
+  for (const [i, input] of inputs.entries()) {
+    progress.update(inputs.length > 1 ? `Planning ${i + 1}/${inputs.length}: ${input}` : `Planning ${input}...`);
+    estimates.push(await estimateInput(input, options, prices, shared));
+  }
+  const total = combineEstimates(estimates.map(({ estimate }) => estimate));
+  progress.succeed(`Planned ${inputs.length} ${inputs.length === 1 ? 'input' : 'inputs'}`);
+
+  if (options.dryRun) {
+    printEstimates(estimates, total);
+    return true;
+  }
+
+  checkMaxCost(total, options.maxCost!);
+  progress.info(`Estimated cost ${formatCost(total.cost)}, within --max-cost ${formatCost(options.maxCost!)}`);
+  return false;
+}
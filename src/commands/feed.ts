@@ -0,0 +1,192 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import chalk from 'chalk';
+import { ProgressReporter } from '../utils/progress';
+import { formatDuration } from '../utils/format';
+import { handleInterrupts, INTERRUPTED_EXIT_CODE } from '../utils/interrupt';
+import { loadFeed, parseIndexList, selectEpisodes, EpisodeSelection, FeedEpisode } from '../lib/feed';
+import { describeFailures, getDownloadOptions, runTranscription, TranscribeOptions } from './transcribe';
+import { formatStats } from './report';
+import { OutputMetadata, getOutputExtension } from './output';
+import { checkEstimate } from './estimate';
+
+export interface FeedOptions extends TranscribeOptions {
+  list: boolean;
+  episode?: string;
+  guid?: string[];
+  since?: string;
+  until?: string;
+  latest?: string;
+  outputDir?: string;
+}
+
+/**
+ * Parse a --since/--until value. A plain date (YYYY-MM-DD) is a local calendar day:
+ * its start, or with `endOfDay` its last millisecond, so --until includes that day.
+ */
+export function parseDateOption(value: string, name: string, endOfDay = false): Date {
+  const day = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const date = day
+    ? endOfDay
+      ? new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3]), 23, 59, 59, 999)
+      : new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3]))
+    : new Date(value);
+  // Out-of-range days such as 2024-02-30 would roll over into the next month
+  if (Number.isNaN(date.getTime()) || (day && date.getDate() !== Number(day[3]))) {
+    throw new Error(`Invalid date for --${name}: ${value} (expected YYYY-MM-DD or an ISO 8601 date and time)`);
+  }
+  return date;
+}
+
+function buildSelection(options: FeedOptions): EpisodeSelection | null {
+  const selection: EpisodeSelection = {};
+
+  if (options.episode) selection.indices = parseIndexList(options.episode);
+  if (options.guid && options.guid.length > 0) selection.guids = options.guid;
+  if (options.since) selection.since = parseDateOption(options.since, 'since');
+  if (options.until) selection.until = parseDateOption(options.until, 'until', true);
+  if (options.latest) {
+    const latest = parseInt(options.latest, 10);
+    if (Number.isNaN(latest) || latest <= 0) {
+      throw new Error(`Invalid value for --latest: ${options.latest}`);
+    }
+    selection.latest = latest;
+  }
+
+  return Object.keys(selection).length > 0 ? selection : null;
+}
+
+function printEpisodes(episodes: FeedEpisode[]): void {
+  for (const episode of episodes) {
+    // Local calendar day, the way --since and --until read plain dates
+    const date = episode.pubDate
+      ? [
+          episode.pubDate.getFullYear(),
+          String(episode.pubDate.getMonth() + 1).padStart(2, '0'),
+          String(episode.pubDate.getDate()).padStart(2, '0')
+        ].join('-')
+      : '----------';
+    const duration = episode.duration !== undefined ? formatDuration(episode.duration) : '--:--';
+    console.log(
+      `${chalk.cyan(episode.index.toString().padStart(4))}  ${date}  ${duration.padStart(8)}  ${episode.title}`
+    );
+    console.log(chalk.gray(`      guid: ${episode.guid}`));
+    console.log(chalk.gray(`      enclosure: ${episode.enclosure?.url ?? '(none)'}`));
+  }
+}
+
+function slugify(text: string): string {
+  const slug = text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80);
+  return slug || 'episode';
+}
+
+function toMetadata(feedTitle: string, episode: FeedEpisode): OutputMetadata {
+  return {
+    title: episode.title,
+    feed: feedTitle,
+    guid: episode.guid,
+    published: episode.pubDate?.toISOString(),
+    duration: episode.duration,
+    url: episode.enclosure?.url,
+    link: episode.link
+  };
+}
+
+export async function feedCommand(
+  source: string,
+  options: FeedOptions
+): Promise<void> {
+  const progress = new ProgressReporter(options.quiet);
+  const interrupts = handleInterrupts();
+  let transcribed = 0;
+  let selected = 0;
+
+  try {
+    progress.start('Loading feed...');
+    const feed = await loadFeed(source, getDownloadOptions({ ...options, signal: interrupts.signal }));
+    progress.succeed(`Feed loaded: ${feed.title} (${feed.episodes.length} episodes)`);
+
+    const selection = buildSelection(options);
+
+    // Without a selection there is nothing to transcribe, just show the episodes
+    if (!selection) {
+      printEpisodes(feed.episodes);
+      return;
+    }
+
+    const episodes = selectEpisodes(feed.episodes, selection);
+    if (episodes.length === 0) {
+      throw new Error('No episodes match the selection');
+    }
+
+    if (options.list) {
+      printEpisodes(episodes);
+      return;
+    }
+
+    const missing = episodes.filter(episode => !episode.enclosure);
+    if (missing.length > 0) {
+      throw new Error(`Episodes without audio enclosure: ${missing.map(e => e.index).join(', ')}`);
+    }
+
+    if (episodes.length > 1 && options.output) {
+      throw new Error('--output only supports a single episode, use --output-dir for multiple episodes');
+    }
+
+    if (await checkEstimate(episodes.map(episode => episode.enclosure!.url), { ...options, signal: interrupts.signal }, progress)) {
+      return;
+    }
+
+    if (options.outputDir) {
+      await mkdir(options.outputDir, { recursive: true });
+    }
+
+    selected = episodes.length;
+    for (const [i, episode] of episodes.entries()) {
+      progress.info(`Episode ${i + 1}/${episodes.length}: ${episode.title}`);
+
+      const { output, data, failures } = await runTranscription(
+        episode.enclosure!.url,
+        { ...options, signal: interrupts.signal },
+        progress,
+        toMetadata(feed.title, episode)
+      );
+      if (failures) {
+        describeFailures(failures).forEach(line => progress.warn(line));
+      }
+
+      const outputPath = options.outputDir
+        ? join(options.outputDir, `${episode.index}-${slugify(episode.title)}.${getOutputExtension(options.outputFormat)}`)
+        : options.output;
+
+      if (outputPath) {
+        await writeFile(outputPath, output, 'utf-8');
+        console.log(chalk.green(`\nOutput saved to: ${outputPath}`));
+      } else {
+        console.log('\n' + output);
+      }
+      if (options.stats && data.run) {
+        console.error('\n' + formatStats(data.run));
+      }
+      transcribed++;
+    }
+
+  } catch (error) {
+    if (interrupts.signal.aborted) {
+      progress.fail('Interrupted');
+      console.error(chalk.yellow(`Interrupted after ${transcribed} of ${selected} episodes were transcribed`));
+      process.exit(INTERRUPTED_EXIT_CODE);
+    }
+    progress.fail('Operation failed');
+    console.error(
+      chalk.red(`\nError: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    );
+    process.exit(1);
+  } finally {
+    interrupts.dispose();
+  }
+}
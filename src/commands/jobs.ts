@@ -0,0 +1,397 @@
+/**
+ * Job queue and store behind pt serve
+ *
+ * Each job has its own directory: job.json with the request and status, the uploaded
+ * audio, and result.json with the transcription data once done, so the result can be
+ * rendered in any output format. Jobs that were queued or running when the server
+ * stopped are queued again on the next start.
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { join } from 'path';
+import { logger } from '../utils/logger';
+import { ProgressReporter } from '../utils/progress';
+import { ChunkFailure } from '../lib/types';
+import { TranscriptionProgress } from '../lib/transcription';
+import { isUrl, runTranscription, SharedResources, TranscribeOptions } from './transcribe';
+import { OutputData, OUTPUT_FORMATS, isOutputFormat, needsSegments } from './output';
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+type OptionType = 'string' | 'number' | 'integer' | 'boolean' | 'list';
+
+const EXPECTED: Record<OptionType, string> = {
+  string: 'string',
+  number: 'number',
+  integer: 'whole number of at least 1',
+  boolean: 'boolean',
+  list: 'string list'
+};
+
+// Options a job may set, the rest comes from the server's flags and config.
+// Options that reach the server's files or programs (output, chapters file,
+// whisper binary, profile, provider) are not accepted, nor the limits the operator
+// sets on downloads, retries, timeouts and concurrency.
+const JOB_OPTIONS = {
+  summary: 'boolean',
+  summaryTemplate: 'list',
+  language: 'string',
+  outputFormat: 'string',
+  chapters: 'boolean',
+  wordTimestamps: 'boolean',
+  translateTo: 'string',
+  bilingual: 'boolean',
+  chatModel: 'string',
+  contextTokens: 'number',
+  chunkDuration: 'number',
+  splitStrategy: 'string',
+  overlap: 'number',
+  preprocess: 'string',
+  normalize: 'boolean',
+  denoise: 'boolean',
+  subtitlePreset: 'string',
+  maxChars: 'number',
+  maxLines: 'integer',
+  minDuration: 'number',
+  maxDuration: 'number',
+  maxCps: 'number',
+  continueOnError: 'boolean',
+  header: 'list',
+  cookie: 'string'
+} satisfies Partial<Record<keyof TranscribeOptions, OptionType>>;
+
+export type JobOptions = Partial<Pick<TranscribeOptions, keyof typeof JOB_OPTIONS>>;
+
+export interface JobProgress {
+  stage?: string;         // Current step, e.g. "Generating AI summary..."
+  download?: { current: number; total: number };  // bytes, total 0 when unknown
+  chunks?: { current: number; total: number };
+}
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  input: string;          // Audio URL, or the uploaded file in the job directory
+  name?: string;          // File name of an upload
+  options: JobOptions;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  progress: JobProgress;
+  duration?: number;      // Length of the audio in seconds
+  failures?: ChunkFailure[];  // Chunks that did not complete (continueOnError)
+  error?: string;
+}
+
+export interface JobQueueOptions {
+  dir: string;
+  workers: number;        // Jobs running at the same time
+  defaults: TranscribeOptions;  // Server settings, overridden by each job's options
+  shared: SharedResources;
+}
+
+const JOB_FILE = 'job.json';
+const RESULT_FILE = 'result.json';
+
+export function getJobsDir(): string {
+  return join(process.env.XDG_DATA_HOME || join(homedir(), '.local', 'share'), 'pt', 'jobs');
+}
+
+function parseOption(key: string, type: OptionType, value: unknown): unknown {
+  const invalid = () => new Error(`Invalid value for ${key}: ${JSON.stringify(value)} (expected ${EXPECTED[type]})`);
+  switch (type) {
+    case 'number': {
+      const number = typeof value === 'string' ? parseFloat(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) throw invalid();
+      return number;
+    }
+    case 'integer': {
+      const number = typeof value === 'string' && /^\d+$/.test(value.trim()) ? parseInt(value, 10) : value;
+      if (typeof number !== 'number' || !Number.isInteger(number) || number < 1) throw invalid();
+      return number;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === '1' || value === '') return true;
+      if (value === 'false' || value === '0') return false;
+      throw invalid();
+    case 'list': {
+      const list = typeof value === 'string' ? [value] : value;
+      if (!Array.isArray(list) || !list.every(item => typeof item === 'string')) throw invalid();
+      return list;
+    }
+    default:
+      if (typeof value !== 'string') throw invalid();
+      return value;
+  }
+}
+
+/**
+ * Check job options from a request body or query string. Numbers and booleans
+ * may be given as strings.
+ */
+export function parseJobOptions(values: Record<string, unknown>): JobOptions {
+  const options: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (!(key in JOB_OPTIONS)) {
+      throw new Error(`Unknown job option: ${key} (expected ${Object.keys(JOB_OPTIONS).join(', ')})`);
+    }
+    if (value === undefined || value === null) continue;
+    options[key] = parseOption(key, JOB_OPTIONS[key as keyof typeof JOB_OPTIONS], value);
+  }
+
+  const parsed = options as JobOptions;
+  if (parsed.outputFormat && !isOutputFormat(parsed.outputFormat)) {
+    throw new Error(`Unknown output format: ${parsed.outputFormat} (expected ${OUTPUT_FORMATS.join(', ')})`);
+  }
+  // Template files would be read from the server's disk
+  if (parsed.summaryTemplate?.some(name => /[\\/]/.test(name))) {
+    throw new Error('Summary templates must be given by name');
+  }
+  return parsed;
+}
+
+// Records the steps a job goes through instead of drawing a spinner
+class JobReporter extends ProgressReporter {
+  constructor(private job: Job) {
+    super(true);
+  }
+
+  start(message: string): void {
+    this.job.progress.stage = message;
+  }
+
+  update(message: string): void {
+    this.job.progress.stage = message;
+  }
+}
+
+export class JobQueue {
+  private jobs = new Map<string, Job>();
+  private queue: string[] = [];
+  private running = new Map<string, { controller: AbortController; done: Promise<void> }>();
+  private stopping = false;
+
+  constructor(private options: JobQueueOptions) {}
+
+  jobDir(id: string): string {
+    return join(this.options.dir, id);
+  }
+
+  /**
+   * Load stored jobs and queue again the ones that did not finish
+   */
+  async load(): Promise<void> {
+    await mkdir(this.options.dir, { recursive: true });
+    const unfinished: Job[] = [];
+
+    for (const entry of await readdir(this.options.dir, { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue;
+      try {
+        const job = JSON.parse(await readFile(join(this.options.dir, entry.name, JOB_FILE), 'utf-8')) as Job;
+        this.jobs.set(job.id, job);
+        if (job.status === 'queued' || job.status === 'running') {
+          unfinished.push(job);
+        }
+      } catch {
+        logger.warn(`[Jobs] Skipping unreadable job directory: ${entry.name}`);
+      }
+    }
+
+    unfinished.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    for (const job of unfinished) {
+      job.status = 'queued';
+      job.progress = {};
+      this.queue.push(job.id);
+    }
+    if (unfinished.length > 0) {
+      logger.info(`[Jobs] Requeued ${unfinished.length} unfinished jobs`);
+    }
+    this.pump();
+  }
+
+  list(): Job[] {
+    return [...this.jobs.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  get(id: string): Job | undefined {
+    return this.jobs.get(id);
+  }
+
+  counts(): Record<JobStatus, number> {
+    const counts: Record<JobStatus, number> = { queued: 0, running: 0, done: 0, failed: 0, cancelled: 0 };
+    for (const job of this.jobs.values()) counts[job.status]++;
+    return counts;
+  }
+
+  /**
+   * Reserve an id and directory for a new job, so an upload can be written there first
+   */
+  async allocate(): Promise<string> {
+    const id = randomUUID();
+    await mkdir(this.jobDir(id), { recursive: true });
+    return id;
+  }
+
+  async add(id: string, input: string, options: JobOptions, name?: string): Promise<Job> {
+    const job: Job = {
+      id,
+      status: 'queued',
+      input,
+      name,
+      options,
+      createdAt: new Date().toISOString(),
+      progress: {}
+    };
+    this.jobs.set(id, job);
+    await this.save(job);
+    this.queue.push(id);
+    this.pump();
+    return job;
+  }
+
+  // Remove a reserved directory whose job was never added
+  async discard(id: string): Promise<void> {
+    await rm(this.jobDir(id), { recursive: true, force: true });
+  }
+
+  /**
+   * Cancel a queued or running job. Returns false when the job already finished.
+   */
+  async cancel(id: string): Promise<boolean> {
+    const job = this.jobs.get(id);
+    if (!job) return false;
+
+    if (job.status === 'queued') {
+      this.queue = this.queue.filter(queued => queued !== id);
+      job.status = 'cancelled';
+      job.finishedAt = new Date().toISOString();
+      await this.save(job);
+      return true;
+    }
+
+    const run = this.running.get(id);
+    if (run) {
+      run.controller.abort(new Error('Job cancelled'));
+      await run.done;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Delete a job with its files, cancelling it first if needed
+   */
+  async remove(id: string): Promise<void> {
+    await this.cancel(id);
+    this.jobs.delete(id);
+    await rm(this.jobDir(id), { recursive: true, force: true });
+  }
+
+  async result(id: string): Promise<OutputData> {
+    return JSON.parse(await readFile(join(this.jobDir(id), RESULT_FILE), 'utf-8')) as OutputData;
+  }
+
+  /**
+   * Stop taking jobs and abort running ones, which are queued again on the next start
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    const runs = [...this.running.values()];
+    runs.forEach(run => run.controller.abort(new Error('Server stopping')));
+    await Promise.all(runs.map(run => run.done));
+  }
+
+  private async save(job: Job): Promise<void> {
+    // Write then rename, so a crash never leaves a truncated job file
+    const path = join(this.jobDir(job.id), JOB_FILE);
+    await writeFile(`${path}.tmp`, JSON.stringify(job, null, 2), 'utf-8');
+    await rename(`${path}.tmp`, path);
+  }
+
+  private pump(): void {
+    while (!this.stopping && this.running.size < this.options.workers && this.queue.length > 0) {
+      const id = this.queue.shift()!;
+      const job = this.jobs.get(id);
+      if (!job) continue;
+      const controller = new AbortController();
+      const done = this.run(job, controller).catch(error => {
+        logger.error(`[Jobs] ${job.id}:`, error);
+      }).finally(() => {
+        this.running.delete(id);
+        this.pump();
+      });
+      this.running.set(id, { controller, done });
+    }
+  }
+
+  private onProgress(job: Job, event: TranscriptionProgress): void {
+    if (event.type === 'download' && event.progress) {
+      job.progress.download = event.progress;
+    } else if (event.type === 'partial' && event.progress) {
+      job.progress.chunks = event.progress;
+    } else if (event.type === 'progress' && event.message) {
+      job.progress.stage = event.message;
+    }
+  }
+
+  private async run(job: Job, controller: AbortController): Promise<void> {
+    const { defaults, shared } = this.options;
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    job.progress = {};
+    job.error = undefined;
+    await this.save(job);
+    logger.info(`[Jobs] Started ${job.id} (${job.name ?? job.input})`);
+
+    // The timeline is only kept when the job's format or options need segments,
+    // the gpt-4o transcription models cannot return them
+    const options = { ...defaults, ...job.options };
+    const timeline = needsSegments(options.outputFormat) || options.chapters || options.wordTimestamps;
+
+    try {
+      const { data, duration, failures } = await runTranscription(
+        job.input,
+        {
+          ...options,
+          output: undefined,
+          quiet: true,
+          chaptersFile: undefined,
+          // Chunks cached before a restart are picked up again
+          resume: defaults.cache,
+          timeline,
+          signal: controller.signal,
+          onProgress: event => this.onProgress(job, event)
+        },
+        new JobReporter(job),
+        isUrl(job.input) ? { url: job.input } : { title: job.name },
+        shared
+      );
+      await writeFile(join(this.jobDir(job.id), RESULT_FILE), JSON.stringify(data), 'utf-8');
+      job.status = 'done';
+      job.duration = duration;
+      job.failures = failures;
+      logger.info(`[Jobs] Finished ${job.id}`);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        job.status = this.stopping ? 'queued' : 'cancelled';
+        logger.info(`[Jobs] ${this.stopping ? 'Interrupted' : 'Cancelled'} ${job.id}`);
+      } else {
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message.trim() : 'Unknown error';
+        logger.error(`[Jobs] Failed ${job.id}: ${job.error.split('\n')[0]}`);
+      }
+    }
+
+    job.progress.stage = undefined;
+    if (job.status !== 'queued') {
+      job.finishedAt = new Date().toISOString();
+    }
+    // The job may have been deleted while it ran
+    if (this.jobs.has(job.id)) {
+      await this.save(job).catch(error => logger.warn(`[Jobs] Could not save ${job.id}:`, error));
+    }
+  }
+}
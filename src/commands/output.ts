@@ -0,0 +1,169 @@
+import { formatDuration } from '../utils/format';
+import { SrtEntry } from '../lib/types';
+import { SectionSummary, TemplateSummary } from '../lib/summary';
+import { Chapter, chaptersToMarkdown, chaptersToYouTube } from '../lib/chapters';
+import { bilingualEntries } from '../lib/translate';
+import { RunReport } from './report';
+import {
+  SubtitleFormat,
+  SUBTITLE_FORMATS,
+  SUBTITLE_WRITERS,
+  isSubtitleFormat,
+  writeSubtitles,
+  entriesToSegments
+} from '../lib/subtitles';
+
+export type OutputFormat = 'text' | 'json' | 'markdown' | SubtitleFormat;
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'markdown', ...SUBTITLE_FORMATS];
+
+// Descriptive metadata about the transcribed media, carried into json/markdown output
+export interface OutputMetadata {
+  title?: string;
+  feed?: string;
+  guid?: string;
+  published?: string;     // ISO 8601
+  duration?: number;      // seconds
+  url?: string;
+  link?: string;
+}
+
+// The transcript and cues in the target language of --translate-to
+export interface OutputTranslation {
+  language: string;
+  transcript?: string;
+  entries?: SrtEntry[];   // Same timings as the original entries
+}
+
+// Everything a run produced, ready to be rendered in one of the output formats
+export interface OutputData {
+  transcript: string;
+  summary: string | null;
+  summaries?: TemplateSummary[]; // One summary per template, when templates were chosen
+  sections?: SectionSummary[];  // Per-section summaries of a long transcript
+  chapters?: Chapter[];
+  entries?: SrtEntry[];
+  metadata?: OutputMetadata;
+  language?: string;
+  translation?: OutputTranslation;
+  bilingual?: boolean;    // Show the original next to the translation
+  run?: RunReport;        // Input, models, chunks and usage of the run that produced it
+}
+
+const TEXT_EXTENSIONS: Record<string, string> = {
+  text: 'txt',
+  json: 'json',
+  markdown: 'md'
+};
+
+export function isOutputFormat(format: string): format is OutputFormat {
+  return OUTPUT_FORMATS.includes(format as OutputFormat);
+}
+
+// Whether the format is rendered from the subtitle timeline rather than plain text
+export function needsTimeline(format: string): boolean {
+  return isSubtitleFormat(format);
+}
+
+// Whether the format carries timed segments, so the transcript must come from the timestamped flow
+export function needsSegments(format: string): boolean {
+  return needsTimeline(format) || format === 'json';
+}
+
+export function getOutputExtension(format: OutputFormat): string {
+  return isSubtitleFormat(format) ? SUBTITLE_WRITERS[format].extension : TEXT_EXTENSIONS[format];
+}
+
+function formatMarkdownMetadata(metadata: OutputMetadata): string {
+  const lines: string[] = [];
+  if (metadata.feed) lines.push(`- **Podcast:** ${metadata.feed}`);
+  if (metadata.published) lines.push(`- **Published:** ${metadata.published}`);
+  if (metadata.duration !== undefined) lines.push(`- **Duration:** ${formatDuration(metadata.duration)}`);
+  if (metadata.link) lines.push(`- **Link:** ${metadata.link}`);
+  if (metadata.url) lines.push(`- **Audio:** ${metadata.url}`);
+  return lines.join('\n');
+}
+
+export function formatOutput(data: OutputData, format: OutputFormat): string {
+  const { summary, sections, chapters, entries, metadata, translation, bilingual } = data;
+  const summaries = data.summaries && data.summaries.length > 0
+    ? data.summaries
+    : summary ? [{ template: 'default', title: 'Summary', summary }] : [];
+
+  if (isSubtitleFormat(format)) {
+    if (translation?.entries) {
+      return bilingual
+        ? writeSubtitles(bilingualEntries(entries || [], translation.entries), format, { language: data.language })
+        : writeSubtitles(translation.entries, format, { language: translation.language });
+    }
+    return writeSubtitles(entries || [], format, { language: data.language });
+  }
+
+  // Text formats show the translation, after the original when bilingual
+  const translated = translation?.transcript;
+  const transcript = translated && !bilingual ? translated : data.transcript;
+
+  switch (format) {
+    case 'json':
+      return JSON.stringify(
+        {
+          metadata,
+          transcript: data.transcript,
+          summary: summary || undefined,
+          summaries: data.summaries,
+          sections,
+          chapters,
+          segments: entries ? entriesToSegments(entries) : undefined,
+          translation: translation && {
+            language: translation.language,
+            transcript: translation.transcript,
+            segments: translation.entries ? entriesToSegments(translation.entries) : undefined
+          },
+          run: data.run
+        },
+        null,
+        2
+      );
+    case 'markdown':
+      let md = '';
+      const chapterList = chapters && chapters.length > 0 ? chaptersToMarkdown(chapters) : '';
+      if (metadata?.title) {
+        md += `# ${metadata.title}\n\n`;
+        const details = formatMarkdownMetadata(metadata);
+        if (details) {
+          md += `${details}\n\n`;
+        }
+        if (chapterList) {
+          md += `## Chapters\n\n${chapterList}\n\n`;
+        }
+        md += `## Transcription\n\n${transcript}`;
+        if (translated && bilingual) {
+          md += `\n\n## Translation\n\n${translated}`;
+        }
+      } else {
+        if (chapterList) {
+          md += `# Chapters\n\n${chapterList}\n\n`;
+        }
+        md += `# Transcription\n\n${transcript}`;
+        if (translated && bilingual) {
+          md += `\n\n# Translation\n\n${translated}`;
+        }
+      }
+      for (const item of summaries) {
+        md += `\n\n---\n\n${metadata?.title ? '##' : '#'} ${item.title}\n\n${item.summary}`;
+      }
+      return md;
+    default:
+      let text = transcript;
+      if (translated && bilingual) {
+        text += `\n\n========== TRANSLATION ==========\n\n${translated}`;
+      }
+      if (chapters && chapters.length > 0) {
+        text += `\n\n========== CHAPTERS ==========\n\n${chaptersToYouTube(chapters)}`;
+      }
+      for (const item of summaries) {
+        text += `\n\n========== ${item.title.toUpperCase()} ==========\n\n${item.summary}`;
+      }
+      return text;
+  }
+}
@@ -0,0 +1,125 @@
+import { basename } from 'path';
+import { formatBytes, formatDuration } from '../utils/format';
+import { toolVersion } from '../lib/ffmpeg';
+import { getVersion } from '../lib/version';
+import { AudioInfo, ChunkReport } from '../lib/types';
+import { UsageSummary } from '../lib/usage';
+
+// What a run did, for auditing: json output and --stats
+export interface RunReport {
+  startedAt: string;      // ISO 8601
+  finishedAt: string;
+  elapsed: number;        // seconds
+  input: {
+    source: string;       // Path or URL
+    size?: number;        // bytes
+    duration?: number;    // seconds
+    container?: string;
+    codec?: string;
+  };
+  language: string;       // Requested language, "auto" to detect
+  models: {
+    transcription: string;    // provider:model
+    chat?: string;        // Only when chat requests were made
+  };
+  chunks: ChunkReport[];
+  usage: UsageSummary;
+  versions: {
+    pt: string;
+    node: string;
+    ffmpeg?: string;
+    ffprobe?: string;
+  };
+}
+
+export interface RunDetails {
+  source: string;
+  startedAt: Date;
+  duration?: number;
+  audio?: AudioInfo;
+  language: string;
+  transcriptionModel: string;
+  chatModel: string;
+  chunks?: ChunkReport[];
+  usage: UsageSummary;
+}
+
+export async function buildRunReport(details: RunDetails): Promise<RunReport> {
+  const finishedAt = new Date();
+  const [ffmpeg, ffprobe] = await Promise.all([toolVersion('ffmpeg'), toolVersion('ffprobe')]);
+
+  return {
+    startedAt: details.startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    elapsed: Math.round((finishedAt.getTime() - details.startedAt.getTime()) / 100) / 10,
+    input: {
+      source: details.source,
+      size: details.audio?.size,
+      duration: details.duration,
+      container: details.audio?.container,
+      codec: details.audio?.codec
+    },
+    language: details.language,
+    models: {
+      transcription: details.transcriptionModel,
+      chat: Object.keys(details.usage.tokens).length > 0 ? details.chatModel : undefined
+    },
+    chunks: details.chunks ?? [],
+    usage: details.usage,
+    versions: { pt: getVersion(), node: process.version, ffmpeg, ffprobe }
+  };
+}
+
+// Detected languages with the number of chunks each, most common first
+function describeLanguages(chunks: ChunkReport[]): string | undefined {
+  const counts = new Map<string, number>();
+  chunks.forEach(chunk => chunk.language && counts.set(chunk.language, (counts.get(chunk.language) ?? 0) + 1));
+  if (counts.size === 0) return undefined;
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([language, count]) => counts.size > 1 ? `${language} (${count})` : language)
+    .join(', ');
+}
+
+/**
+ * The report as lines of text, printed by --stats
+ */
+export function formatStats(report: RunReport): string {
+  const { input, chunks, usage, versions } = report;
+  const lines: string[] = ['Run stats'];
+  const row = (label: string, value: string) => lines.push(`  ${label.padEnd(10)}${value}`);
+
+  const details = [
+    input.size !== undefined ? formatBytes(input.size) : undefined,
+    input.container ? [input.container, input.codec].filter(Boolean).join('/') : undefined,
+    input.duration !== undefined ? formatDuration(input.duration) : undefined
+  ].filter(Boolean);
+  const name = input.source.startsWith('http://') || input.source.startsWith('https://') ? input.source : basename(input.source);
+  row('Input', details.length > 0 ? `${name} (${details.join(', ')})` : name);
+  row('Models', [report.models.transcription, report.models.chat && `chat ${report.models.chat}`].filter(Boolean).join(', '));
+
+  const cached = chunks.filter(chunk => chunk.cached).length;
+  const failed = chunks.filter(chunk => chunk.failure).length;
+  const transcribing = chunks.reduce((sum, chunk) => sum + (chunk.elapsed ?? 0), 0);
+  const chunkNotes = [cached > 0 && `${cached} cached`, failed > 0 && `${failed} failed`].filter(Boolean);
+  row('Chunks', `${chunks.length}${chunkNotes.length > 0 ? ` (${chunkNotes.join(', ')})` : ''}, ${formatDuration(transcribing)} transcribing`);
+  const languages = describeLanguages(chunks);
+  if (languages) {
+    row('Language', languages);
+  }
+
+  row('Requests', `${usage.requests} (${usage.retries} ${usage.retries === 1 ? 'retry' : 'retries'})`);
+  const stages = Object.entries(usage.tokens);
+  if (stages.length > 0) {
+    const byStage = stages.map(([stage, tokens]) => `${stage} ${tokens.totalTokens.toLocaleString('en-US')}`);
+    row('Tokens', `${usage.totalTokens.toLocaleString('en-US')} (${byStage.join(', ')})`);
+  }
+
+  row('Versions', [
+    `pt ${versions.pt}`,
+    `node ${versions.node}`,
+    versions.ffmpeg && `ffmpeg ${versions.ffmpeg}`
+  ].filter(Boolean).join(', '));
+  row('Elapsed', formatDuration(report.elapsed));
+  return lines.join('\n');
+}
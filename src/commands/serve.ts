@@ -0,0 +1,336 @@
+import { createWriteStream } from 'fs';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { timingSafeEqual } from 'crypto';
+import { basename, extname, join, resolve } from 'path';
+import { pipeline } from 'stream/promises';
+import chalk from 'chalk';
+import pLimit from 'p-limit';
+import { ProgressReporter } from '../utils/progress';
+import { formatBytes, parseSize } from '../utils/format';
+import { extensionFromContentType, filenameFromContentDisposition, isSupportedExtension } from '../lib/audio';
+import { cleanupTempDirs } from '../lib/temp';
+import { isSubtitleFormat } from '../lib/subtitles';
+import { createProvider, isUrl, SharedResources, TranscribeOptions } from './transcribe';
+import { formatOutput, getOutputExtension, isOutputFormat, OUTPUT_FORMATS } from './output';
+import { getJobsDir, Job, JobOptions, JobQueue, parseJobOptions } from './jobs';
+
+export interface ServeOptions extends TranscribeOptions {
+  port: number;
+  host: string;
+  workers: number;
+  jobsDir?: string;
+}
+
+interface ServerContext {
+  queue: JobQueue;
+  options: ServeOptions;
+  token?: string;         // Bearer token from PT_SERVE_TOKEN, never a flag
+  maxSize?: number;       // bytes per upload
+}
+
+// Largest JSON request body
+const MAX_JSON_BODY = 1024 * 1024;
+
+const CONTENT_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  json: 'application/json',
+  md: 'text/markdown',
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  ttml: 'application/ttml+xml',
+  ass: 'text/x-ssa',
+  'segments.json': 'application/json'
+};
+
+// An error answered with its status code and message
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body, null, 2));
+}
+
+// Job as shown by the API: without request headers, cookies and server paths
+function publicJob(job: Job): Omit<Job, 'input'> & { input?: string } {
+  const { header, cookie, ...options } = job.options;
+  return { ...job, input: isUrl(job.input) ? job.input : undefined, options };
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization ?? '';
+  const given = Buffer.from(header.startsWith('Bearer ') ? header.slice(7).trim() : '');
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function parseOptions(values: Record<string, unknown>): JobOptions {
+  try {
+    return parseJobOptions(values);
+  } catch (error) {
+    throw new HttpError(400, error instanceof Error ? error.message : String(error));
+  }
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_JSON_BODY) {
+      throw new HttpError(413, `Request body over ${formatBytes(MAX_JSON_BODY)}`);
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+}
+
+// Stream an upload into the job directory, named so the extension hints at the format
+async function receiveUpload(req: IncomingMessage, dir: string, name: string | undefined, maxSize?: number): Promise<string> {
+  const length = Number(req.headers['content-length']);
+  if (maxSize !== undefined && length > maxSize) {
+    throw new HttpError(413, `Upload too large: ${formatBytes(length)} (limit ${formatBytes(maxSize)})`);
+  }
+
+  const nameExtension = name ? extname(name).slice(1).toLowerCase() : '';
+  const extension = isSupportedExtension(nameExtension)
+    ? nameExtension
+    : extensionFromContentType(req.headers['content-type']);
+  const path = join(dir, extension ? `input.${extension}` : 'input');
+
+  let received = 0;
+  await pipeline(
+    req,
+    async function* (source: AsyncIterable<Buffer>) {
+      for await (const chunk of source) {
+        received += chunk.length;
+        if (maxSize !== undefined && received > maxSize) {
+          throw new HttpError(413, `Upload too large: over ${formatBytes(maxSize)}`);
+        }
+        yield chunk;
+      }
+    },
+    createWriteStream(path)
+  );
+
+  if (received === 0) {
+    throw new HttpError(400, 'Expected an audio upload or a JSON body with "url"');
+  }
+  return path;
+}
+
+// POST /jobs: JSON { url, options } or an audio upload with options in the query string
+async function createJob(req: IncomingMessage, url: URL, context: ServerContext): Promise<Job> {
+  const { queue } = context;
+  const contentType = req.headers['content-type'] ?? '';
+
+  if (contentType.startsWith('application/json')) {
+    const body = await readJson(req) as { url?: unknown; options?: unknown };
+    if (typeof body !== 'object' || body === null || typeof body.url !== 'string' || !isUrl(body.url)) {
+      throw new HttpError(400, 'Expected "url" with an http(s) audio URL');
+    }
+    if (body.options !== undefined && (typeof body.options !== 'object' || body.options === null || Array.isArray(body.options))) {
+      throw new HttpError(400, '"options" must be an object');
+    }
+    const options = parseOptions((body.options ?? {}) as Record<string, unknown>);
+    return queue.add(await queue.allocate(), body.url, options);
+  }
+
+  // Repeated query parameters (header) become lists
+  const values: Record<string, unknown> = {};
+  for (const key of new Set(url.searchParams.keys())) {
+    if (key === 'name') continue;
+    const all = url.searchParams.getAll(key);
+    values[key] = all.length > 1 ? all : all[0];
+  }
+  const options = parseOptions(values);
+
+  const given = url.searchParams.get('name') ?? filenameFromContentDisposition(req.headers['content-disposition']);
+  const name = given ? basename(given) : undefined;
+
+  const id = await queue.allocate();
+  try {
+    const path = await receiveUpload(req, queue.jobDir(id), name, context.maxSize);
+    return await queue.add(id, path, options, name);
+  } catch (error) {
+    await queue.discard(id);
+    throw error;
+  }
+}
+
+// GET /jobs/:id/result?format=: the result rendered in any output format
+async function sendResult(res: ServerResponse, job: Job, url: URL, context: ServerContext): Promise<void> {
+  const format = url.searchParams.get('format') ?? job.options.outputFormat ?? context.options.outputFormat;
+  if (!isOutputFormat(format)) {
+    throw new HttpError(400, `Unknown output format: ${format} (expected ${OUTPUT_FORMATS.join(', ')})`);
+  }
+  if (job.status !== 'done') {
+    throw new HttpError(409, `Job is ${job.status}`);
+  }
+
+  const result = await context.queue.result(job.id);
+  if (isSubtitleFormat(format) && !result.entries) {
+    throw new HttpError(409, `Job has no subtitle timeline, submit it with a subtitle outputFormat to get ${format}`);
+  }
+  const output = formatOutput(result, format);
+  const extension = getOutputExtension(format);
+  const name = basename(job.name ?? 'transcript', extname(job.name ?? ''));
+  res.writeHead(200, {
+    'Content-Type': `${CONTENT_TYPES[extension] ?? 'text/plain'}; charset=utf-8`,
+    'Content-Disposition': `inline; filename="${name.replace(/[^\w.-]/g, '_')}.${extension}"`
+  });
+  res.end(output);
+}
+
+async function handleRequest(req: IncomingMessage, res: ServerResponse, context: ServerContext): Promise<void> {
+  const { queue } = context;
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const parts = url.pathname.split('/').filter(Boolean);
+  const method = req.method ?? 'GET';
+
+  // Open for health checks
+  if (url.pathname === '/health' && method === 'GET') {
+    sendJson(res, 200, { status: 'ok', jobs: queue.counts() });
+    return;
+  }
+
+  if (context.token && !isAuthorized(req, context.token)) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    throw new HttpError(401, 'Missing or invalid bearer token');
+  }
+
+  if (parts[0] !== 'jobs' || parts.length > 3) {
+    throw new HttpError(404, 'Not found');
+  }
+
+  if (parts.length === 1) {
+    if (method === 'GET') {
+      sendJson(res, 200, { jobs: queue.list().map(publicJob) });
+    } else if (method === 'POST') {
+      sendJson(res, 202, publicJob(await createJob(req, url, context)));
+    } else {
+      throw new HttpError(405, `Method not allowed: ${method}`);
+    }
+    return;
+  }
+
+  const job = queue.get(parts[1]);
+  if (!job) {
+    throw new HttpError(404, `Job not found: ${parts[1]}`);
+  }
+
+  const route = `${method} ${parts[2] ?? ''}`;
+  switch (route) {
+    case 'GET ':
+      sendJson(res, 200, publicJob(job));
+      return;
+    case 'DELETE ':
+      await queue.remove(job.id);
+      res.writeHead(204).end();
+      return;
+    case 'GET result':
+      await sendResult(res, job, url, context);
+      return;
+    case 'POST cancel':
+      if (!(await queue.cancel(job.id))) {
+        throw new HttpError(409, `Job is ${job.status}`);
+      }
+      sendJson(res, 200, publicJob(job));
+      return;
+    default:
+      throw parts[2] && parts[2] !== 'result' && parts[2] !== 'cancel'
+        ? new HttpError(404, 'Not found')
+        : new HttpError(405, `Method not allowed: ${method}`);
+  }
+}
+
+export async function serveCommand(options: ServeOptions): Promise<void> {
+  const progress = new ProgressReporter(options.quiet);
+
+  try {
+    if (!Number.isInteger(options.port) || options.port < 0 || options.port > 65535) {
+      throw new Error(`Invalid port: ${options.port}`);
+    }
+    if (!Number.isInteger(options.workers) || options.workers < 1) {
+      throw new Error(`Workers must be a positive integer: ${options.workers}`);
+    }
+
+    const dir = resolve(options.jobsDir ?? getJobsDir());
+    const provider = createProvider(options);
+    const shared: SharedResources = {
+      provider,
+      limit: pLimit(Math.min(options.concurrency, provider.maxConcurrency ?? Infinity))
+    };
+    const queue = new JobQueue({ dir, workers: options.workers, defaults: options, shared });
+    await queue.load();
+
+    const context: ServerContext = {
+      queue,
+      options,
+      token: process.env.PT_SERVE_TOKEN || undefined,
+      maxSize: options.maxSize ? parseSize(options.maxSize) : undefined
+    };
+
+    const server = createServer((req, res) => {
+      handleRequest(req, res, context).catch(error => {
+        const status = error instanceof HttpError ? error.status : 500;
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        if (status === 500) {
+          console.error(chalk.red(`Error: ${message}`));
+        }
+        if (res.headersSent) {
+          res.destroy();
+          return;
+        }
+        // An upload refused halfway is not read to the end
+        res.setHeader('Connection', 'close');
+        sendJson(res, status, { error: message });
+      });
+    });
+
+    await new Promise<void>((resolvePromise, reject) => {
+      server.once('error', reject);
+      server.listen(options.port, options.host, () => resolvePromise());
+    });
+
+    const address = server.address();
+    const port = typeof address === 'object' && address ? address.port : options.port;
+    progress.info(`Listening on http://${options.host}:${port} with ${options.workers} workers (jobs in ${dir}, Ctrl-C to stop)`);
+    if (!context.token) {
+      progress.warn('PT_SERVE_TOKEN is not set, requests are not authenticated');
+    }
+
+    // Running jobs are interrupted on shutdown and queued again on the next start
+    const signal = await new Promise<NodeJS.Signals>(resolvePromise => {
+      const onSignal = (received: NodeJS.Signals) => {
+        process.off('SIGINT', onSignal);
+        process.off('SIGTERM', onSignal);
+        resolvePromise(received);
+      };
+      process.on('SIGINT', onSignal);
+      process.on('SIGTERM', onSignal);
+    });
+    console.error(chalk.yellow(`\n${signal} received, stopping (running jobs resume on the next start)`));
+
+    server.close();
+    server.closeAllConnections();
+    await queue.stop();
+    progress.info('Server stopped');
+
+  } catch (error) {
+    progress.fail('Operation failed');
+    console.error(
+      chalk.red(`\nError: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    );
+    process.exitCode = 1;
+  } finally {
+    cleanupTempDirs();
+  }
+}
@@ -1,130 +1,595 @@
 import { existsSync } from 'fs';
 import { stat, writeFile } from 'fs/promises';
-import { resolve } from 'path';
+import { basename, dirname, extname, join, resolve } from 'path';
 import chalk from 'chalk';
 import { ProgressReporter } from '../utils/progress';
+import { formatBytes, formatDuration, parseSize } from '../utils/format';
+import { handleInterrupts, INTERRUPTED_EXIT_CODE } from '../utils/interrupt';
 
 // Import from core modules using relative paths
-import { transcribeAudio, transcribeAudioFile, TranscriptionProgress } from '../lib/transcription';
-import { generateSummary } from '../lib/summary';
-import { downloadAudio } from '../lib/audio-downloader';
+import { transcribeAudioFile, transcribeAudioUrl, TranscriptionProgress } from '../lib/transcription';
+import { summarizeTranscript, SectionSummary, TemplateSummary } from '../lib/summary';
+import { translateEntries, translateText } from '../lib/translate';
+import { mergeChunkTexts } from '../lib/merge';
+import { languageName } from '../lib/languages';
+import { loadSummaryTemplate, SummaryTemplate } from '../lib/summary-templates';
+import {
+  Chapter,
+  ChapterFormat,
+  CHAPTER_FORMATS,
+  chapterFormatFromPath,
+  generateChapters,
+  isChapterFormat,
+  writeChapters
+} from '../lib/chapters';
+import { OpenAIConfig } from '../lib/openai';
+import { DownloadOptions, parseHeaders } from '../lib/audio-downloader';
+import { CacheMode } from '../lib/cache';
+import { SplitStrategy, SPLIT_STRATEGIES } from '../lib/splitter';
+import { AudioInfo, ChunkFailure, ChunkReport, SrtEntry, TranscribedChunk } from '../lib/types';
+import { RequestPolicy } from '../lib/retry';
+import { isPreprocessCodec, PreprocessOptions, PREPROCESS_CODECS } from '../lib/preprocess';
+import { UsageTracker } from '../lib/usage';
+import { resolveLayoutOptions } from '../lib/subtitles/layout';
+import type { LimitFunction } from 'p-limit';
+import { createTranscriptionProvider, ProviderName, TranscriptionProvider } from '../lib/providers';
+import {
+  OutputFormat,
+  OutputData,
+  OutputMetadata,
+  OutputTranslation,
+  OUTPUT_FORMATS,
+  isOutputFormat,
+  needsTimeline,
+  formatOutput
+} from './output';
+import { checkEstimate } from './estimate';
+import { buildRunReport, formatStats } from './report';
 
 export interface TranscribeOptions {
   summary: boolean;
   language: string;
   output?: string;
-  outputFormat: 'text' | 'json' | 'markdown' | 'srt';
+  outputFormat: OutputFormat;
   quiet: boolean;
+  cache: boolean;
+  resume: boolean;
+  splitStrategy: SplitStrategy;
+  overlap: number;
+  subtitlePreset?: string;
+  maxChars?: number;
+  maxLines?: number;
+  minDuration?: number;
+  maxDuration?: number;
+  maxCps?: number;
+  provider: ProviderName;
+  model?: string;
+  endpoint?: string;
+  whisperBin?: string;
+  profile?: string;
+  chatModel: string;
+  contextTokens: number;
+  concurrency: number;
+  chunkDuration: number;
+  apiKey?: string;        // From env or config, never a flag
+  baseUrl?: string;
+  summaryTemplate?: string[];
+  chapters: boolean;
+  chaptersFile?: string;
+  chaptersFormat?: string;
+  header?: string[];
+  cookie?: string;
+  maxSize?: string;
+  retries: number;
+  timeout: number;        // seconds without data before a download is retried
+  connectTimeout: number; // seconds
+  requestTimeout: number; // seconds per API request attempt
+  continueOnError: boolean;
+  wordTimestamps: boolean;
+  preprocess?: string;    // Codec chunks are transcoded to, stream copy when not set
+  normalize?: boolean;    // Loudness normalization, implies preprocessing
+  denoise?: boolean;      // High-pass and noise reduction filters, implies preprocessing
+  maxUpload?: string;     // Largest chunk file sent to the provider, e.g. 25M
+  translateTo?: string;
+  bilingual: boolean;
+  timeline?: boolean;     // Keep the subtitle timeline whatever the output format (pt serve)
+  signal?: AbortSignal;   // Cancels the run
+  dryRun?: boolean;       // Print the plan and cost estimate instead of transcribing
+  maxCost?: number;       // USD, refuse to start above this estimate
+  savePartial?: boolean;  // On Ctrl-C, write the transcript of the chunks finished so far
+  stats?: boolean;        // Print the run report to stderr
+  usage?: UsageTracker;   // Counts the requests, retries and tokens of the run
+  onChunk?: (chunk: TranscribedChunk) => void;  // Each chunk as it finishes
+  onProgress?: (progress: TranscriptionProgress) => void;  // Raw progress events, besides the reporter
 }
 
-function isUrl(input: string): boolean {
+export interface TranscribeInputResult {
+  transcript: string;
+  entries?: SrtEntry[];
+  duration?: number;
+  failures?: ChunkFailure[];
+  audio?: AudioInfo;
+  chunks?: ChunkReport[];
+  model: string;          // provider:model the chunks were transcribed with
+}
+
+export interface TranscriptionRun {
+  output: string;
+  data: OutputData;       // What the output was rendered from, for rendering other formats
+  duration?: number;      // Length of the audio in seconds
+  failures?: ChunkFailure[];  // Chunks marked as gaps or left unformatted (--continue-on-error)
+}
+
+// Shared by transcriptions running at the same time (batch mode)
+export interface SharedResources {
+  provider: TranscriptionProvider;
+  limit: LimitFunction;   // Budget for concurrent chunk requests across all inputs
+}
+
+// Longest allowed overlap between consecutive chunks, in seconds
+const MAX_OVERLAP = 30;
+
+export function getCacheMode(options: TranscribeOptions): CacheMode {
+  if (!options.cache) return 'off';
+  return options.resume ? 'resume' : 'write';
+}
+
+function getOpenAIConfig(options: TranscribeOptions): OpenAIConfig {
+  return { apiKey: options.apiKey, baseURL: options.baseUrl };
+}
+
+export function createProvider(options: TranscribeOptions): TranscriptionProvider {
+  return createTranscriptionProvider({
+    provider: options.provider,
+    model: options.model,
+    endpoint: options.endpoint,
+    whisperBin: options.whisperBin,
+    openaiConfig: getOpenAIConfig(options)
+  });
+}
+
+// Retries and timeout for API requests
+function getRequestPolicy(options: TranscribeOptions): RequestPolicy {
+  if (!Number.isInteger(options.retries) || options.retries < 0) {
+    throw new Error(`Retries must be a non-negative integer: ${options.retries}`);
+  }
+  if (!(options.requestTimeout > 0)) {
+    throw new Error(`Request timeout must be positive: ${options.requestTimeout}`);
+  }
+  return {
+    retries: options.retries,
+    timeout: options.requestTimeout * 1000,
+    signal: options.signal,
+    usage: options.usage
+  };
+}
+
+// One line per failed chunk, for the summary printed at the end of a run
+export function describeFailures(failures: ChunkFailure[]): string[] {
+  return failures.map(failure => {
+    const range = `${formatDuration(failure.start)} - ${formatDuration(failure.end)}`;
+    const what = failure.stage === 'transcription' ? 'marked as a gap' : 'kept unformatted';
+    return `Chunk ${failure.index + 1} (${range}) ${what}: ${failure.error.split('\n')[0]}`;
+  });
+}
+
+// Download settings for URL inputs and feeds
+export function getDownloadOptions(options: TranscribeOptions): DownloadOptions {
+  if (!Number.isInteger(options.retries) || options.retries < 0) {
+    throw new Error(`Retries must be a non-negative integer: ${options.retries}`);
+  }
+  if (!(options.timeout > 0) || !(options.connectTimeout > 0)) {
+    throw new Error('--timeout and --connect-timeout must be positive');
+  }
+
+  return {
+    headers: parseHeaders(options.header, options.cookie),
+    maxSize: options.maxSize ? parseSize(options.maxSize) : undefined,
+    retries: options.retries,
+    readTimeout: options.timeout * 1000,
+    connectTimeout: options.connectTimeout * 1000,
+    signal: options.signal
+  };
+}
+
+// Chunk transcoding, undefined to cut chunks with stream copy
+export function getPreprocessOptions(options: TranscribeOptions): PreprocessOptions | undefined {
+  if (!options.preprocess && !options.normalize && !options.denoise) {
+    return undefined;
+  }
+  const codec = options.preprocess ?? 'opus';
+  if (!isPreprocessCodec(codec)) {
+    throw new Error(`Unknown preprocess codec: ${codec} (expected ${PREPROCESS_CODECS.join(', ')})`);
+  }
+  return { codec, normalize: options.normalize, denoise: options.denoise };
+}
+
+// Upload limit for chunk files, undefined for the provider's default
+export function getUploadLimit(options: TranscribeOptions): number | undefined {
+  return options.maxUpload ? parseSize(options.maxUpload) : undefined;
+}
+
+export function isUrl(input: string): boolean {
   return input.startsWith('http://') || input.startsWith('https://');
 }
 
-function formatBytes(bytes: number): string {
-  if (bytes < 1024) return `${bytes} B`;
-  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+// Reject settings the pipeline cannot run with, before any work starts
+export function checkTranscribeOptions(options: TranscribeOptions): void {
+  if (!isOutputFormat(options.outputFormat)) {
+    throw new Error(`Unknown output format: ${options.outputFormat} (expected ${OUTPUT_FORMATS.join(', ')})`);
+  }
+
+  if (!SPLIT_STRATEGIES.includes(options.splitStrategy)) {
+    throw new Error(`Unknown split strategy: ${options.splitStrategy} (expected ${SPLIT_STRATEGIES.join(', ')})`);
+  }
+
+  if (Number.isNaN(options.overlap) || options.overlap < 0 || options.overlap > MAX_OVERLAP) {
+    throw new Error(`Overlap must be between 0 and ${MAX_OVERLAP} seconds`);
+  }
+
+  if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+    throw new Error(`Concurrency must be a positive integer: ${options.concurrency}`);
+  }
+
+  if (!(options.chunkDuration > options.overlap)) {
+    throw new Error(`Chunk duration must be longer than the overlap: ${options.chunkDuration}`);
+  }
+
+  // Both throw on a bad value
+  getPreprocessOptions(options);
+  getUploadLimit(options);
 }
 
-function formatOutput(transcript: string, summary: string | null, format: string, srt?: string): string {
-  switch (format) {
-    case 'srt':
-      return srt || '';
-    case 'json':
-      return JSON.stringify(
-        { transcript, summary: summary || undefined, srt: srt || undefined },
-        null,
-        2
-      );
-    case 'markdown':
-      let md = `# Transcription\n\n${transcript}`;
-      if (summary) {
-        md += `\n\n---\n\n# Summary\n\n${summary}`;
-      }
-      return md;
-    default:
-      let text = transcript;
-      if (summary) {
-        text += `\n\n========== SUMMARY ==========\n\n${summary}`;
-      }
-      return text;
+/**
+ * Whether the transcript comes from the timestamped flow. Subtitles, chapters and word
+ * timing cannot do without segments; json output and the kept timeline (pt serve) use
+ * them when the provider returns them, and plain text otherwise.
+ */
+export function useSegmentFlow(options: TranscribeOptions, provider: TranscriptionProvider): boolean {
+  const needs = [
+    needsTimeline(options.outputFormat) && `${options.outputFormat} output`,
+    options.chapters && '--chapters',
+    options.wordTimestamps && '--word-timestamps'
+  ].filter(Boolean);
+  if (needs.length > 0 && provider.segments === false) {
+    throw new Error(`Model ${provider.model} does not return segment timestamps, which ${needs.join(' and ')} ${needs.length === 1 ? 'needs' : 'need'}. Use a Whisper model`);
   }
+  const optional = options.outputFormat === 'json' || Boolean(options.timeline);
+  return needs.length > 0 || (optional && provider.segments !== false);
 }
 
-export async function transcribeCommand(
+// Transcribe a local file or a direct audio URL, reporting progress
+export async function transcribeInput(
   input: string,
-  options: TranscribeOptions
-): Promise<void> {
-  const progress = new ProgressReporter(options.quiet);
-  const needSrt = options.outputFormat === 'srt';
+  options: TranscribeOptions,
+  progress: ProgressReporter,
+  shared?: SharedResources
+): Promise<TranscribeInputResult> {
+  // Only subtitles are rendered from the cues, any other transcript is formatted as text output is
+  const formatText = !needsTimeline(options.outputFormat);
 
-  try {
-    let transcript: string;
-    let srt: string | undefined;
-
-    const progressCallback = (progressData: TranscriptionProgress) => {
-      if (progressData.type === 'progress') {
-        progress.update(progressData.message || 'Processing...');
-      } else if (progressData.type === 'partial' && progressData.progress) {
-        progress.progressBar(
-          progressData.progress.current,
-          progressData.progress.total,
-          'Transcribing'
-        );
+  checkTranscribeOptions(options);
+
+  const layout = resolveLayoutOptions(options.subtitlePreset, {
+    maxCharsPerLine: options.maxChars,
+    maxLines: options.maxLines,
+    minDuration: options.minDuration,
+    maxDuration: options.maxDuration,
+    maxCps: options.maxCps
+  }) ?? undefined;
+
+  const openaiConfig = getOpenAIConfig(options);
+  const provider = shared?.provider ?? createProvider(options);
+  const needSrt = useSegmentFlow(options, provider);
+
+  const progressCallback = (progressData: TranscriptionProgress) => {
+    options.onProgress?.(progressData);
+    if (progressData.type === 'progress') {
+      progress.update(progressData.message || 'Processing...');
+    } else if (progressData.type === 'download' && progressData.progress) {
+      const { current, total } = progressData.progress;
+      // Without a Content-Length there is nothing to fill the bar against
+      if (total > 0) {
+        progress.progressBar(current, total, 'Downloading', formatBytes);
+      } else {
+        progress.update(`Downloading audio... ${formatBytes(current)}`);
       }
+    } else if (progressData.type === 'downloaded' && progressData.progress) {
+      progress.succeed(`Audio downloaded (${formatBytes(progressData.progress.current)})`);
+      progress.start('Transcribing audio...');
+    } else if (progressData.type === 'partial' && progressData.progress) {
+      progress.progressBar(
+        progressData.progress.current,
+        progressData.progress.total,
+        'Transcribing'
+      );
+    }
+  };
+
+  // Determine input type
+  if (isUrl(input)) {
+    // URL: streamed to a temp file, then transcribed like a local file
+    progress.start('Downloading audio...');
+    const transcribeResult = await transcribeAudioUrl(input, {
+      download: getDownloadOptions(options),
+      language: options.language,
+      outputFormat: needSrt ? 'srt' : 'text',
+      wordTimestamps: options.wordTimestamps,
+      formatText,
+      preprocess: getPreprocessOptions(options),
+      maxUploadBytes: getUploadLimit(options),
+      chunkDuration: options.chunkDuration,
+      splitStrategy: options.splitStrategy,
+      overlap: options.overlap,
+      openaiConfig,
+      chatModel: options.chatModel,
+      concurrency: options.concurrency,
+      layout,
+      provider,
+      limit: shared?.limit,
+      cache: getCacheMode(options),
+      policy: getRequestPolicy(options),
+      continueOnError: options.continueOnError,
+      signal: options.signal,
+      source: input,
+      onProgress: progressCallback,
+      onChunk: options.onChunk
+    });
+    return {
+      transcript: transcribeResult.text,
+      entries: transcribeResult.entries,
+      duration: transcribeResult.duration,
+      failures: transcribeResult.failures,
+      audio: transcribeResult.audio,
+      chunks: transcribeResult.chunks,
+      model: `${provider.name}:${provider.model}`
     };
+  }
 
-    // Determine input type
-    if (isUrl(input)) {
-      // URL: need to download to buffer first
-      progress.start('Downloading audio...');
-      const downloadResult = await downloadAudio(input);
-      progress.succeed(`Audio downloaded (${formatBytes(downloadResult.buffer.length)})`);
+  // Local file: use file path directly (no memory copy)
+  const filePath = resolve(input);
+  if (!existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
 
-      progress.start('Transcribing audio...');
-      const transcribeResult = await transcribeAudio(downloadResult.buffer, downloadResult.extension, {
-        language: options.language,
-        outputFormat: needSrt ? 'srt' : 'text',
-        onProgress: progressCallback
-      });
-      transcript = transcribeResult.text;
-      srt = transcribeResult.srt;
-    } else {
-      // Local file: use file path directly (no memory copy)
-      const filePath = resolve(input);
-      if (!existsSync(filePath)) {
-        throw new Error(`File not found: ${filePath}`);
+  const fileStats = await stat(filePath);
+
+  progress.info(`File: ${filePath} (${formatBytes(fileStats.size)})`);
+  progress.start('Transcribing audio...');
+
+  const transcribeResult = await transcribeAudioFile(filePath, {
+    language: options.language,
+    outputFormat: needSrt ? 'srt' : 'text',
+    wordTimestamps: options.wordTimestamps,
+    formatText,
+    preprocess: getPreprocessOptions(options),
+    maxUploadBytes: getUploadLimit(options),
+    chunkDuration: options.chunkDuration,
+    splitStrategy: options.splitStrategy,
+    overlap: options.overlap,
+    openaiConfig,
+    chatModel: options.chatModel,
+    concurrency: options.concurrency,
+    layout,
+    provider,
+    limit: shared?.limit,
+    cache: getCacheMode(options),
+    policy: getRequestPolicy(options),
+    continueOnError: options.continueOnError,
+    signal: options.signal,
+    source: filePath,
+    onProgress: progressCallback,
+    onChunk: options.onChunk
+  });
+  return {
+    transcript: transcribeResult.text,
+    entries: transcribeResult.entries,
+    duration: transcribeResult.duration,
+    failures: transcribeResult.failures,
+    audio: transcribeResult.audio,
+    chunks: transcribeResult.chunks,
+    model: `${provider.name}:${provider.model}`
+  };
+}
+
+// Run transcription and optional summary, returning the formatted output
+export async function runTranscription(
+  input: string,
+  options: TranscribeOptions,
+  progress: ProgressReporter,
+  metadata?: OutputMetadata,
+  shared?: SharedResources
+): Promise<TranscriptionRun> {
+  const startedAt = new Date();
+  options = { ...options, usage: options.usage ?? new UsageTracker() };
+  const needSrt = needsTimeline(options.outputFormat);
+
+  // Load templates before transcribing so a bad name fails fast
+  // Choosing a template implies --summary
+  const templateNames = options.summaryTemplate ?? [];
+  const templates: SummaryTemplate[] = [];
+  for (const name of templateNames) {
+    templates.push(await loadSummaryTemplate(name));
+  }
+  // With the timeline kept (pt serve), everything is produced so any format can be rendered later
+  const renderAll = Boolean(options.timeline);
+  const wantSummary = (options.summary || templates.length > 0) && (!needSrt || renderAll);
+
+  // A chapters file or format implies --chapters
+  const wantChapters = options.chapters || Boolean(options.chaptersFile || options.chaptersFormat);
+  let chapterFormat: ChapterFormat | undefined;
+  if (options.chaptersFormat && !isChapterFormat(options.chaptersFormat)) {
+    throw new Error(`Unknown chapters format: ${options.chaptersFormat} (expected ${CHAPTER_FORMATS.join(', ')})`);
+  }
+  if (options.chaptersFile) {
+    chapterFormat = (options.chaptersFormat as ChapterFormat | undefined) ?? chapterFormatFromPath(options.chaptersFile);
+  }
+
+  if (options.bilingual && !options.translateTo) {
+    throw new Error('--bilingual requires --translate-to');
+  }
+
+  const { transcript, entries, duration, failures, audio, chunks, model } = await transcribeInput(
+    input,
+    { ...options, chapters: wantChapters },
+    progress,
+    shared
+  );
+
+  const gaps = failures?.filter(failure => failure.stage === 'transcription').length ?? 0;
+  if (gaps > 0) {
+    progress.succeed(`Transcription complete with ${gaps} failed ${gaps === 1 ? 'chunk' : 'chunks'} marked as gaps`);
+  } else {
+    progress.succeed('Transcription complete');
+  }
+
+  // Translate the cues for subtitle and json output, the transcript for the text formats
+  let translation: OutputTranslation | undefined;
+  if (options.translateTo) {
+    const translateOptions = {
+      targetLanguage: options.translateTo,
+      sourceLanguage: options.language,
+      openaiConfig: getOpenAIConfig(options),
+      model: options.chatModel,
+      contextTokens: options.contextTokens,
+      concurrency: options.concurrency,
+      policy: getRequestPolicy(options)
+    };
+    translation = { language: options.translateTo };
+    progress.start(`Translating to ${languageName(options.translateTo)}...`);
+    if (entries && (needSrt || options.outputFormat === 'json' || renderAll)) {
+      translation.entries = await translateEntries(entries, translateOptions);
+    }
+    if (!needSrt || renderAll) {
+      translation.transcript = await translateText(transcript, translateOptions);
+    }
+    progress.succeed(`Translated to ${languageName(options.translateTo)}`);
+  }
+
+  // Generate summary if requested (not available for subtitle formats)
+  let summary: string | null = null;
+  let summaries: TemplateSummary[] | undefined;
+  let sections: SectionSummary[] | undefined;
+  if (wantSummary) {
+    progress.start('Generating AI summary...');
+    const published = metadata?.published ? new Date(metadata.published) : new Date();
+    const summaryResult = await summarizeTranscript(transcript, {
+      language: options.language,
+      openaiConfig: getOpenAIConfig(options),
+      model: options.chatModel,
+      contextTokens: options.contextTokens,
+      concurrency: options.concurrency,
+      policy: getRequestPolicy(options),
+      templates: templates.length > 0 ? templates : undefined,
+      outputLanguage: options.translateTo,
+      variables: {
+        title: metadata?.title ?? basename(input),
+        language: options.language === 'auto' ? undefined : options.language,
+        duration: duration !== undefined ? formatDuration(duration) : undefined,
+        date: published.toISOString().slice(0, 10)
       }
+    });
+    summary = summaryResult.summary;
+    summaries = templates.length > 0 ? summaryResult.summaries : undefined;
+    sections = summaryResult.sections.length > 0 ? summaryResult.sections : undefined;
+    progress.succeed(sections ? `Summary generated from ${sections.length} sections` : 'Summary generated');
+  }
 
-      const fileStats = await stat(filePath);
+  let chapters: Chapter[] | undefined;
+  if (wantChapters) {
+    progress.start('Generating chapters...');
+    chapters = await generateChapters(entries ?? [], {
+      openaiConfig: getOpenAIConfig(options),
+      model: options.chatModel,
+      contextTokens: options.contextTokens,
+      duration,
+      outputLanguage: options.translateTo,
+      policy: getRequestPolicy(options)
+    });
+    progress.succeed(`Generated ${chapters.length} chapters`);
 
-      progress.info(`File: ${filePath} (${formatBytes(fileStats.size)})`);
-      progress.start('Transcribing audio...');
+    if (options.chaptersFile && chapterFormat) {
+      await writeFile(options.chaptersFile, writeChapters(chapters, chapterFormat), 'utf-8');
+      progress.info(`Chapters saved to: ${options.chaptersFile}`);
+    }
+  }
+
+  const data: OutputData = {
+    transcript,
+    summary,
+    summaries,
+    sections,
+    chapters,
+    entries,
+    metadata,
+    language: options.language,
+    translation,
+    bilingual: options.bilingual,
+    run: await buildRunReport({
+      source: isUrl(input) ? input : resolve(input),
+      startedAt,
+      duration,
+      audio,
+      language: options.language,
+      transcriptionModel: model,
+      chatModel: options.chatModel,
+      chunks,
+      usage: options.usage!.summary()
+    })
+  };
+  return { output: formatOutput(data, options.outputFormat), data, duration, failures };
+}
+
+// Where --save-partial writes the transcript of an interrupted run
+function partialOutputPath(output: string): string {
+  return join(dirname(output), `${basename(output, extname(output))}.partial.txt`);
+}
+
+// Report the chunks an interrupted run finished, and save their transcript if asked
+async function reportInterrupted(completed: TranscribedChunk[], options: TranscribeOptions): Promise<void> {
+  if (completed.length === 0) {
+    console.error(chalk.yellow('Interrupted before any chunk was transcribed'));
+    return;
+  }
 
-      const transcribeResult = await transcribeAudioFile(filePath, {
-        language: options.language,
-        outputFormat: needSrt ? 'srt' : 'text',
-        onProgress: progressCallback
-      });
-      transcript = transcribeResult.text;
-      srt = transcribeResult.srt;
+  const chunks = [...completed].sort((a, b) => a.index - b.index);
+  const cached = chunks.filter(chunk => chunk.cached).length;
+  const reused = cached > 0 ? ` (${cached} from the cache)` : '';
+  console.error(chalk.yellow(`Interrupted after ${chunks.length} of ${chunks[0].total} chunks were transcribed${reused}`));
+  if (options.cache && chunks.length < chunks[0].total) {
+    console.error(chalk.yellow('Re-run with --resume to continue from these chunks'));
+  }
+
+  if (options.savePartial) {
+    const transcript = mergeChunkTexts(chunks.map(chunk => ({ offset: chunk.start, end: chunk.end, text: chunk.text })));
+    if (options.output) {
+      const partialPath = partialOutputPath(options.output);
+      await writeFile(partialPath, transcript, 'utf-8');
+      console.error(chalk.yellow(`Partial transcript saved to: ${partialPath}`));
+    } else {
+      console.log('\n' + transcript);
     }
+  }
+}
 
-    progress.succeed('Transcription complete');
+export async function transcribeCommand(
+  input: string,
+  options: TranscribeOptions
+): Promise<void> {
+  const progress = new ProgressReporter(options.quiet);
+  const interrupts = handleInterrupts();
+  const completed: TranscribedChunk[] = [];
 
-    // Generate summary if requested (not available for SRT format)
-    let summary: string | null = null;
-    if (options.summary && !needSrt) {
-      progress.start('Generating AI summary...');
-      summary = await generateSummary(transcript, {
-        language: options.language
-      });
-      progress.succeed('Summary generated');
+  try {
+    if (await checkEstimate([input], { ...options, signal: interrupts.signal }, progress)) {
+      return;
     }
 
-    // Format output
-    const output = formatOutput(transcript, summary, options.outputFormat, srt);
+    const { output, data, failures } = await runTranscription(
+      input,
+      { ...options, signal: interrupts.signal, onChunk: chunk => completed.push(chunk) },
+      progress
+    );
 
     // Write output
     if (options.output) {
@@ -134,11 +599,30 @@ export async function transcribeCommand(
       console.log('\n' + output);
     }
 
+    if (failures) {
+      console.error(chalk.yellow(`\n${failures.length} ${failures.length === 1 ? 'chunk' : 'chunks'} did not complete:`));
+      describeFailures(failures).forEach(line => console.error(chalk.yellow(`  ${line}`)));
+      if (options.cache) {
+        console.error(chalk.yellow('Re-run with --resume to retry only these chunks'));
+      }
+    }
+
+    if (options.stats && data.run) {
+      console.error('\n' + formatStats(data.run));
+    }
+
   } catch (error) {
+    if (interrupts.signal.aborted) {
+      progress.fail('Interrupted');
+      await reportInterrupted(completed, options);
+      process.exit(INTERRUPTED_EXIT_CODE);
+    }
     progress.fail('Operation failed');
     console.error(
       chalk.red(`\nError: ${error instanceof Error ? error.message : 'Unknown error'}`)
     );
     process.exit(1);
+  } finally {
+    interrupts.dispose();
   }
 }
@@ -0,0 +1,243 @@
+import { existsSync } from 'fs';
+import { copyFile, mkdir, readFile, rename, stat, unlink, writeFile } from 'fs/promises';
+import { basename, extname, join, resolve } from 'path';
+import chalk from 'chalk';
+import pLimit from 'p-limit';
+import { ProgressReporter } from '../utils/progress';
+import { formatDuration } from '../utils/format';
+import { listFiles } from '../utils/glob';
+import { isSupportedExtension } from '../lib/audio';
+import { ChapterFormat, CHAPTER_FORMATS, isChapterFormat } from '../lib/chapters';
+import { cleanupTempDirs } from '../lib/temp';
+import { createProvider, describeFailures, runTranscription, SharedResources, TranscribeOptions } from './transcribe';
+import { chaptersPathFor, renderOutputName } from './batch';
+import { getOutputExtension } from './output';
+
+export interface WatchOptions extends TranscribeOptions {
+  outputDir?: string;
+  nameTemplate: string;
+  processedDir?: string;
+  failedDir?: string;
+  move: boolean;
+  interval: number;
+  settle: number;
+  stateFile?: string;
+}
+
+export interface WatchStateEntry {
+  size: number;
+  mtimeMs: number;
+  status: 'done' | 'failed';
+  output?: string;
+  error?: string;
+  finishedAt: string;
+}
+
+// Files already handled, by file name, so a restart does not process them again
+export interface WatchState {
+  files: Record<string, WatchStateEntry>;
+}
+
+interface PendingFile {
+  size: number;
+  mtimeMs: number;
+  stableSince: number;
+}
+
+const STATE_FILE = '.pt-watch.json';
+
+async function loadState(path: string): Promise<WatchState> {
+  try {
+    const data = JSON.parse(await readFile(path, 'utf-8')) as Partial<WatchState>;
+    return { files: data.files ?? {} };
+  } catch {
+    return { files: {} };
+  }
+}
+
+async function saveState(path: string, state: WatchState): Promise<void> {
+  // Write then rename, so a crash never leaves a truncated state file
+  await writeFile(`${path}.tmp`, JSON.stringify(state, null, 2), 'utf-8');
+  await rename(`${path}.tmp`, path);
+}
+
+// Move a file into a directory, copying when it is on another device
+async function moveInto(filePath: string, dir: string): Promise<string> {
+  await mkdir(dir, { recursive: true });
+  let target = join(dir, basename(filePath));
+  if (existsSync(target)) {
+    const ext = extname(filePath);
+    target = join(dir, `${basename(filePath, ext)}-${Date.now()}${ext}`);
+  }
+  try {
+    await rename(filePath, target);
+  } catch {
+    await copyFile(filePath, target);
+    await unlink(filePath);
+  }
+  return target;
+}
+
+export async function watchCommand(dir: string, options: WatchOptions): Promise<void> {
+  const progress = new ProgressReporter(options.quiet);
+
+  let stopping = false;
+  let wake: (() => void) | null = null;
+
+  // First signal: finish the current file and stop. Second signal: abort now.
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (stopping) {
+      cleanupTempDirs();
+      console.error(chalk.yellow(`\n${signal} again, aborted`));
+      process.exit(130);
+    }
+    stopping = true;
+    console.error(chalk.yellow(`\n${signal} received, stopping after the current file (repeat to abort)`));
+    wake?.();
+  };
+  process.on('SIGINT', onSignal);
+  process.on('SIGTERM', onSignal);
+
+  const sleep = (seconds: number) => new Promise<void>(resolvePromise => {
+    const timer = setTimeout(() => {
+      wake = null;
+      resolvePromise();
+    }, seconds * 1000);
+    wake = () => {
+      clearTimeout(timer);
+      wake = null;
+      resolvePromise();
+    };
+  });
+
+  try {
+    const watchDir = resolve(dir);
+    if (!existsSync(watchDir) || !(await stat(watchDir)).isDirectory()) {
+      throw new Error(`Not a directory: ${watchDir}`);
+    }
+    if (options.chaptersFile) {
+      throw new Error('--chapters-file is not supported in watch mode, use --chapters-format to write one chapters file per input');
+    }
+    if (options.chaptersFormat && !isChapterFormat(options.chaptersFormat)) {
+      throw new Error(`Unknown chapters format: ${options.chaptersFormat} (expected ${CHAPTER_FORMATS.join(', ')})`);
+    }
+    if (!(options.interval > 0) || !(options.settle >= 0)) {
+      throw new Error('--interval must be positive and --settle must not be negative');
+    }
+
+    const outputDir = resolve(options.outputDir ?? watchDir);
+    const processedDir = resolve(options.processedDir ?? join(watchDir, 'processed'));
+    const failedDir = resolve(options.failedDir ?? join(watchDir, 'failed'));
+    const statePath = resolve(options.stateFile ?? join(watchDir, STATE_FILE));
+    const ext = getOutputExtension(options.outputFormat);
+
+    await mkdir(outputDir, { recursive: true });
+    const state = await loadState(statePath);
+
+    const provider = createProvider(options);
+    const shared: SharedResources = {
+      provider,
+      limit: pLimit(Math.min(options.concurrency, provider.maxConcurrency ?? Infinity))
+    };
+
+    const pending = new Map<string, PendingFile>();
+    let count = Object.keys(state.files).length;
+
+    progress.info(`Watching ${watchDir} (outputs in ${outputDir}, Ctrl-C to stop)`);
+
+    while (!stopping) {
+      const now = Date.now();
+      const files = (await listFiles(watchDir)).filter(file => isSupportedExtension(extname(file).slice(1)));
+      const ready: string[] = [];
+
+      for (const file of files) {
+        const name = basename(file);
+        let fileStats;
+        try {
+          fileStats = await stat(file);
+        } catch {
+          continue;           // Removed since listing
+        }
+
+        const done = state.files[name];
+        if (done && done.size === fileStats.size && done.mtimeMs === fileStats.mtimeMs) {
+          continue;
+        }
+
+        // A file is complete once its size and mtime stop changing for `settle` seconds
+        const seen = pending.get(name);
+        if (!seen || seen.size !== fileStats.size || seen.mtimeMs !== fileStats.mtimeMs) {
+          pending.set(name, { size: fileStats.size, mtimeMs: fileStats.mtimeMs, stableSince: now });
+        } else if (now - seen.stableSince >= options.settle * 1000) {
+          ready.push(file);
+        }
+      }
+
+      // Forget files that disappeared before they settled
+      for (const name of pending.keys()) {
+        if (!files.some(file => basename(file) === name)) pending.delete(name);
+      }
+
+      for (const file of ready) {
+        if (stopping) break;
+        const name = basename(file);
+        const { size, mtimeMs } = pending.get(name)!;
+        pending.delete(name);
+
+        const outputPath = join(outputDir, renderOutputName(options.nameTemplate, file, ++count, ext));
+        const chaptersFile = options.chaptersFormat
+          ? chaptersPathFor(outputPath, options.chaptersFormat as ChapterFormat)
+          : undefined;
+
+        progress.info(`New file: ${name}`);
+        const started = Date.now();
+        try {
+          const { output, duration, failures } = await runTranscription(
+            file,
+            { ...options, output: undefined, chaptersFile },
+            progress,
+            undefined,
+            shared
+          );
+          await writeFile(outputPath, output, 'utf-8');
+
+          const length = duration !== undefined ? `${formatDuration(duration)} of audio, ` : '';
+          console.log(chalk.green(`Output saved to: ${outputPath} (${length}${formatDuration((Date.now() - started) / 1000)} elapsed)`));
+          if (failures) {
+            describeFailures(failures).forEach(line => progress.warn(line));
+          }
+          state.files[name] = { size, mtimeMs, status: 'done', output: outputPath, finishedAt: new Date().toISOString() };
+          if (options.move) {
+            await moveInto(file, processedDir);
+          }
+        } catch (error) {
+          const message = error instanceof Error ? error.message.trim() : 'Unknown error';
+          progress.fail(`Failed: ${name}`);
+          console.error(chalk.red(`Error: ${message.split('\n')[0]}`));
+          state.files[name] = { size, mtimeMs, status: 'failed', error: message, finishedAt: new Date().toISOString() };
+          if (options.move) {
+            await moveInto(file, failedDir);
+          }
+        }
+        await saveState(statePath, state);
+      }
+
+      if (!stopping) {
+        await sleep(options.interval);
+      }
+    }
+
+    progress.info('Stopped watching');
+
+  } catch (error) {
+    progress.fail('Operation failed');
+    console.error(
+      chalk.red(`\nError: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    );
+    process.exitCode = 1;
+  } finally {
+    process.off('SIGINT', onSignal);
+    process.off('SIGTERM', onSignal);
+    cleanupTempDirs();
+  }
+}
@@ -1,9 +1,26 @@
 #!/usr/bin/env node
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import dotenv from 'dotenv';
 import { resolve } from 'path';
 import { homedir } from 'os';
-import { transcribeCommand, TranscribeOptions } from './commands/transcribe';
+import { getVersion } from './lib/version';
+import { transcribeCommand } from './commands/transcribe';
+import { batchCommand, isBatchInvocation, BatchOptions, DEFAULT_NAME_TEMPLATE } from './commands/batch';
+import { feedCommand, FeedOptions } from './commands/feed';
+import { watchCommand, WatchOptions } from './commands/watch';
+import { serveCommand, ServeOptions } from './commands/serve';
+import { cacheListCommand, cacheClearCommand } from './commands/cache';
+import { cleanupCommand, CleanupOptions } from './commands/cleanup';
+import { convertCommand, ConvertOptions } from './commands/convert';
+import {
+  applySettings,
+  configGetCommand,
+  configSetCommand,
+  configUseCommand,
+  configListCommand,
+  ConfigScopeOptions,
+  ConfigListOptions
+} from './commands/config';
 
 // Load environment variables from multiple locations (first found wins)
 // 1. Current working directory
@@ -14,27 +31,239 @@ dotenv.config({ path: resolve(homedir(), '.pt', '.env') });
 // 3. User config directory ~/.config/pt/.env
 dotenv.config({ path: resolve(homedir(), '.config', 'pt', '.env') });
 
+// Collect a repeatable option into an array
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+// Whole number of at least 1, for counts such as --max-lines
+function parseCount(value: string): number {
+  if (!/^\d+$/.test(value.trim()) || parseInt(value, 10) < 1) {
+    throw new InvalidArgumentError('Expected a whole number of at least 1.');
+  }
+  return parseInt(value, 10);
+}
+
 const program = new Command();
 
 program
   .name('pt')
   .description('CLI tool for podcast transcription with AI summary')
-  .version('1.0.0');
+  .version(getVersion())
+  .enablePositionalOptions();
 
-program
-  .argument('[input]', 'Local file path or direct audio URL')
-  .option('-s, --summary', 'Generate AI summary after transcription', false)
-  .option('--no-summary', 'Disable AI summary generation')
-  .option('-l, --language <lang>', 'Language code (auto, en, zh, etc.)', 'auto')
-  .option('-o, --output <file>', 'Output file path (stdout if not specified)')
-  .option('--output-format <format>', 'Output format: text, json, markdown, srt', 'text')
-  .option('-q, --quiet', 'Suppress progress output', false)
-  .action((input: string | undefined, options: TranscribeOptions) => {
-    if (!input) {
+// Options shared by every command that runs the transcription pipeline
+// Settings not given as flags are filled from env and config before the action runs
+function addTranscribeOptions(command: Command): Command {
+  return command
+    .option('--profile <name>', 'Config profile to use (default: active profile)')
+    .option('-s, --summary', 'Generate AI summary after transcription', false)
+    .option('--no-summary', 'Disable AI summary generation')
+    .option('--summary-template <name|path>', 'Summary template: default, show-notes, minutes, thread, outline, or a file (repeatable)', collect)
+    .option('-l, --language <lang>', 'Language code (auto, en, zh, etc.)', 'auto')
+    .option('-o, --output <file>', 'Output file path (stdout if not specified)')
+    .option('--chapters', 'Generate titled chapters from the segment timeline', false)
+    .option('--chapters-file <file>', 'Also write the chapters to this file (implies --chapters)')
+    .option('--chapters-format <format>', 'Chapters file format: json (Podcasting 2.0), youtube, markdown, ffmetadata (default: from extension)')
+    .option('--output-format <format>', 'Output format: text, json, markdown, srt, vtt, ttml, ass, segments', 'text')
+    .option('--word-timestamps', 'Request word-level timing (json/segments words, vtt inline tags, ass karaoke)', false)
+    .option('--translate-to <lang>', 'Translate the transcript, subtitles and summary into this language (en, zh-TW, etc.)')
+    .option('--bilingual', 'Show the original next to the translation (original and translated line in each cue)', false)
+    .option('--provider <name>', 'Transcription backend: openai, openai-compatible, whisper-cpp', 'openai')
+    .option('-m, --model <name>', 'Transcription model (ggml model file for whisper-cpp)')
+    .option('--endpoint <url>', 'Base URL of an openai-compatible transcription server')
+    .option('--whisper-bin <path>', 'whisper.cpp CLI binary (default: whisper-cli)')
+    .option('--chat-model <name>', 'Model for transcript formatting and summaries (default: gpt-3.5-turbo)')
+    .option('--context-tokens <n>', 'Context budget of the chat model; longer transcripts are summarized in sections (default: 12000)', parseFloat)
+    .option('--concurrency <n>', 'Chunks transcribed at the same time (default: 3)', parseFloat)
+    .option('--chunk-duration <seconds>', 'Target chunk length (default: 300)', parseFloat)
+    .option('--subtitle-preset <name>', 'Subtitle layout preset: netflix, youtube, bbc')
+    .option('--max-chars <n>', 'Max characters per subtitle line (CJK count double)', parseFloat)
+    .option('--max-lines <n>', 'Max lines per subtitle cue', parseCount)
+    .option('--min-duration <seconds>', 'Min subtitle cue duration', parseFloat)
+    .option('--max-duration <seconds>', 'Max subtitle cue duration', parseFloat)
+    .option('--max-cps <n>', 'Max reading speed in characters per second', parseFloat)
+    .option('-q, --quiet', 'Suppress progress output', false)
+    .option('--split-strategy <strategy>', 'Chunk splitting: silence (cut at pauses) or fixed', 'silence')
+    .option('--overlap <seconds>', 'Seconds of audio shared by consecutive chunks (e.g. 2-5)', parseFloat, 0)
+    .option('--preprocess <codec>', 'Transcode chunks to mono 16 kHz speech audio: opus or mp3 (default: stream copy)')
+    .option('--normalize', 'Normalize loudness while transcoding (implies --preprocess opus)', false)
+    .option('--denoise', 'Apply high-pass and noise reduction filters while transcoding (implies --preprocess opus)', false)
+    .option('--max-upload <size>', 'Largest chunk file sent to the provider, chunks are shortened to fit (default: 25M, no limit for local providers)')
+    .option('--resume', 'Reuse chunks already transcribed by an earlier run', false)
+    .option('--no-cache', 'Do not read or write the chunk result cache')
+    .option('-H, --header <header>', 'HTTP header for URL and feed downloads, "Name: value" (repeatable)', collect)
+    .option('--cookie <cookie>', 'Cookie header for URL and feed downloads')
+    .option('--max-size <size>', 'Refuse downloads larger than this (e.g. 500M, 2G)')
+    .option('--retries <n>', 'Retries for failed API requests and interrupted downloads', parseFloat, 3)
+    .option('--request-timeout <seconds>', 'Time allowed for each API request attempt (not applied to whisper-cpp)', parseFloat, 300)
+    .option('--continue-on-error', 'Mark chunks that still fail after retries as gaps instead of failing the run', false)
+    .option('--timeout <seconds>', 'Retry a download after this long without data', parseFloat, 60)
+    .option('--connect-timeout <seconds>', 'Time allowed for the server to respond', parseFloat, 30)
+    .hook('preAction', (thisCommand, actionCommand) => {
+      // Hooks also run for subcommands, only resolve for the command itself
+      if (thisCommand === actionCommand) {
+        applySettings(actionCommand);
+      }
+    });
+}
+
+addTranscribeOptions(
+  program.argument('[inputs...]', 'Local files, directories, glob patterns or direct audio URLs')
+)
+  .option('--output-dir <dir>', 'Write one output file per input into this directory (batch mode)')
+  .option('--name-template <template>', 'Output file name in batch mode: {name}, {ext}, {index}, {dir}', DEFAULT_NAME_TEMPLATE)
+  .option('--manifest <file>', 'Batch manifest path (default: <output-dir>/manifest.json)')
+  .option('--skip-existing', 'Skip inputs whose output file already exists', false)
+  .option('--jobs <n>', 'Inputs transcribed at the same time in batch mode', parseFloat, 2)
+  .option('-r, --recursive', 'Include audio files in subdirectories of directory inputs', false)
+  .option('--save-partial', 'On Ctrl-C, write the transcript of the chunks finished so far', false)
+  .option('--dry-run', 'Print the chunk plan and a cost estimate without calling the API', false)
+  .option('--max-cost <usd>', 'Refuse to start when the estimated cost is higher', parseFloat)
+  .option('--stats', 'Print input info, models, chunk timings, token usage and retries to stderr', false)
+  .action(async (inputs: string[], options: BatchOptions) => {
+    if (inputs.length === 0) {
       program.help();
+    } else if (isBatchInvocation(inputs, options)) {
+      await batchCommand(inputs, options);
     } else {
-      transcribeCommand(input, options);
+      await transcribeCommand(inputs[0], options);
     }
   });
 
-program.parse();
+addTranscribeOptions(
+  program
+    .command('feed')
+    .description('Transcribe episodes from a podcast RSS/Atom feed')
+    .argument('<source>', 'Feed URL or local feed XML file')
+)
+  .option('--list', 'List the selected episodes without transcribing', false)
+  .option('-e, --episode <indices>', 'Select episodes by feed position, e.g. 1,3,5-7')
+  .option('--guid <guid...>', 'Select episodes by GUID')
+  .option('--since <date>', 'Select episodes published on or after this date')
+  .option('--until <date>', 'Select episodes published on or before this date (a plain date includes the whole day)')
+  .option('--latest <n>', 'Select the N most recent episodes')
+  .option('--output-dir <dir>', 'Write one output file per episode into this directory')
+  .option('--dry-run', 'Print the chunk plan and a cost estimate without calling the API', false)
+  .option('--max-cost <usd>', 'Refuse to start when the estimated cost is higher', parseFloat)
+  .option('--stats', 'Print input info, models, chunk timings, token usage and retries to stderr', false)
+  .action(async (source: string, options: FeedOptions) => {
+    await feedCommand(source, options);
+  });
+
+addTranscribeOptions(
+  program
+    .command('watch')
+    .description('Watch a drop folder and transcribe new audio files as they arrive')
+    .argument('<dir>', 'Directory to watch')
+)
+  .option('--output-dir <dir>', 'Directory for the output files (default: the watched directory)')
+  .option('--name-template <template>', 'Output file name: {name}, {ext}, {index}, {dir}', DEFAULT_NAME_TEMPLATE)
+  .option('--processed-dir <dir>', 'Where transcribed files are moved (default: <dir>/processed)')
+  .option('--failed-dir <dir>', 'Where failed files are moved (default: <dir>/failed)')
+  .option('--no-move', 'Leave source files in place, the state file prevents reprocessing')
+  .option('--interval <seconds>', 'Seconds between folder scans', parseFloat, 5)
+  .option('--settle <seconds>', 'Seconds a file must stay unchanged before it counts as complete', parseFloat, 10)
+  .option('--state-file <file>', 'State file of handled files (default: <dir>/.pt-watch.json)')
+  .action(async (dir: string, options: WatchOptions) => {
+    await watchCommand(dir, options);
+  });
+
+addTranscribeOptions(
+  program
+    .command('serve')
+    .description('Run a local HTTP API that queues transcription jobs')
+)
+  .option('--port <n>', 'Port to listen on', parseFloat, 8080)
+  .option('--host <host>', 'Address to listen on', '127.0.0.1')
+  .option('--workers <n>', 'Jobs transcribed at the same time', parseFloat, 2)
+  .option('--jobs-dir <dir>', 'Job store directory (default: ~/.local/share/pt/jobs)')
+  .action(async (options: ServeOptions) => {
+    await serveCommand(options);
+  });
+
+program
+  .command('convert')
+  .description('Convert existing SRT, WebVTT or pt JSON output to another format')
+  .argument('<input>', 'Subtitle file (.srt, .vtt) or pt JSON output')
+  .requiredOption('-t, --to <format>', 'Output format: text, json, markdown, srt, vtt, ttml, ass, segments')
+  .option('--from <format>', 'Input format: srt, vtt, json (detected if not specified)')
+  .option('-o, --output <file>', 'Output file path (stdout if not specified)')
+  .option('--shift <seconds>', 'Shift all cues by this many seconds (may be negative)', parseFloat)
+  .option('--scale <factor>', 'Multiply all timestamps by this factor (e.g. 1.001)', parseFloat)
+  .option('-l, --language <lang>', 'Language code recorded in TTML output')
+  .action(async (input: string, options: ConvertOptions) => {
+    await convertCommand(input, options);
+  });
+
+const cache = program
+  .command('cache')
+  .description('Manage the per-chunk transcription cache');
+
+cache
+  .command('ls')
+  .description('List cached transcriptions')
+  .action(async () => {
+    await cacheListCommand();
+  });
+
+cache
+  .command('clear')
+  .description('Remove cached transcriptions (all, or the entry matching a hash prefix)')
+  .argument('[hash]', 'Hash prefix of the entry to remove')
+  .action(async (hash: string | undefined) => {
+    await cacheClearCommand(hash);
+  });
+
+program
+  .command('cleanup')
+  .description('Remove temp sessions left behind by runs that crashed or were killed')
+  .option('--dir <dir>', 'Temp directory to clean (default: $PT_TEMP_DIR or pt/ in the OS temp directory)')
+  .option('--dry-run', 'List the orphaned sessions without removing them', false)
+  .action(async (options: CleanupOptions) => {
+    await cleanupCommand(options);
+  });
+
+const config = program
+  .command('config')
+  .description('Manage config files and named profiles (~/.config/pt/config.json, ./pt.config.json)');
+
+config
+  .command('get')
+  .description('Print the resolved value of a setting')
+  .argument('<key>', 'Setting name')
+  .option('--profile <name>', 'Profile to read (default: active profile)')
+  .action(async (key: string, options: ConfigScopeOptions) => {
+    await configGetCommand(key, options);
+  });
+
+config
+  .command('set')
+  .description('Store a setting in a profile')
+  .argument('<key>', 'Setting name')
+  .argument('<value>', 'Setting value')
+  .option('--profile <name>', 'Profile to write (default: active profile)')
+  .option('--local', 'Write the project config (./pt.config.json) instead of the user config', false)
+  .action(async (key: string, value: string, options: ConfigScopeOptions) => {
+    await configSetCommand(key, value, options);
+  });
+
+config
+  .command('list')
+  .description('List profiles, or every resolved setting with its source')
+  .option('--resolved', 'Show the effective value and source of every setting', false)
+  .option('--profile <name>', 'Profile to resolve (default: active profile)')
+  .action(async (options: ConfigListOptions) => {
+    await configListCommand(options);
+  });
+
+config
+  .command('use')
+  .description('Make a profile the active one')
+  .argument('<profile>', 'Profile name')
+  .option('--local', 'Set the active profile in the project config', false)
+  .action(async (profile: string, options: ConfigScopeOptions) => {
+    await configUseCommand(profile, options);
+  });
+
+program.parseAsync();
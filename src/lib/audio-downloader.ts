@@ -1,25 +1,248 @@
+/**
+ * HTTP downloads with retries, timeouts and size limits
+ *
+ * Audio is streamed straight to a file. When a transfer breaks off, the retry asks
+ * for the rest with a Range request (guarded by If-Range so a changed file starts over).
+ */
+
+import { open, stat } from 'fs/promises';
 import { logger } from '../utils/logger';
-import { getFileExtension } from './audio';
+import { formatBytes } from '../utils/format';
+import { extensionFromHints, getFileExtension } from './audio';
 
 export interface DownloadResult {
   buffer: Buffer;
   extension: string;
 }
 
-export async function downloadAudio(url: string): Promise<DownloadResult> {
+export interface DownloadFileResult {
+  path: string;
+  extension: string;      // Guess from the headers and final URL, see detectAudioFormat for the real format
+  size: number;           // bytes
+  finalUrl: string;       // After redirects
+  contentType?: string;
+  contentDisposition?: string;
+}
+
+export interface DownloadOptions {
+  headers?: Record<string, string>;   // Extra request headers, e.g. Authorization or Cookie
+  maxSize?: number;       // bytes, unlimited when not set
+  retries?: number;       // Attempts after the first one (default 3)
+  connectTimeout?: number;  // ms until the response headers arrive (default 30000)
+  readTimeout?: number;     // ms without receiving data (default 60000)
+  onProgress?: (downloaded: number, total: number | null) => void;
+  signal?: AbortSignal;   // Cancels the download
+}
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_CONNECT_TIMEOUT = 30000;
+const DEFAULT_READ_TIMEOUT = 60000;
+
+// Backoff between attempts: 1s, 2s, 4s ... capped, plus jitter
+const BASE_BACKOFF = 1000;
+const MAX_BACKOFF = 30000;
+
+// Errors that another attempt will not fix
+class PermanentDownloadError extends Error {}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function backoffDelay(attempt: number, retryAfter?: string | null): number {
+  const seconds = retryAfter ? Number(retryAfter) : NaN;
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return Math.min(seconds * 1000, MAX_BACKOFF);
+  }
+  const delay = Math.min(BASE_BACKOFF * 2 ** attempt, MAX_BACKOFF);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+const sleep = (ms: number) => new Promise(resolvePromise => setTimeout(resolvePromise, ms));
+
+/**
+ * Parse "Name: value" header arguments into a header object
+ */
+export function parseHeaders(values: string[] = [], cookie?: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const value of values) {
+    const separator = value.indexOf(':');
+    if (separator <= 0) {
+      throw new Error(`Invalid header: ${value} (expected "Name: value")`);
+    }
+    headers[value.slice(0, separator).trim()] = value.slice(separator + 1).trim();
+  }
+  if (cookie) {
+    headers.Cookie = cookie;
+  }
+  return headers;
+}
+
+/**
+ * Fetch with a timeout for the response headers, retrying network errors,
+ * timeouts, 408, 429 and 5xx responses with exponential backoff
+ */
+export async function fetchWithRetry(
+  url: string,
+  options: DownloadOptions = {},
+  init: { headers?: Record<string, string> } = {}
+): Promise<Response> {
+  const { retries = DEFAULT_RETRIES, connectTimeout = DEFAULT_CONNECT_TIMEOUT, signal } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    let retryAfter: string | null = null;
+    // The connect timeout only covers the response headers, the body is limited by the
+    // read timeout of the caller, so the timer is cleared once the headers arrive
+    const controller = new AbortController();
+    const timer = setTimeout(
+      () => controller.abort(new Error(`No response within ${connectTimeout / 1000}s`)),
+      connectTimeout
+    );
+    try {
+      const response = await fetch(url, {
+        headers: { ...options.headers, ...init.headers },
+        signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal
+      });
+      clearTimeout(timer);
+      if (response.ok) {
+        return response;
+      }
+      await response.body?.cancel();
+      if (!isRetryableStatus(response.status) || attempt >= retries) {
+        throw new PermanentDownloadError(`Request failed: ${response.status} ${response.statusText}`);
+      }
+      retryAfter = response.headers.get('retry-after');
+      logger.warn(`[AudioDownloader] ${response.status} from server, retrying (${attempt + 1}/${retries})`);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+      if (error instanceof PermanentDownloadError || attempt >= retries) {
+        throw error;
+      }
+      logger.warn(`[AudioDownloader] ${error instanceof Error ? error.message : error}, retrying (${attempt + 1}/${retries})`);
+    } finally {
+      clearTimeout(timer);
+    }
+    await sleep(backoffDelay(attempt, retryAfter));
+  }
+}
+
+/**
+ * Stream a URL to a file, resuming with Range requests after interrupted transfers
+ */
+export async function downloadToFile(
+  url: string,
+  filePath: string,
+  options: DownloadOptions = {}
+): Promise<DownloadFileResult> {
+  const {
+    maxSize,
+    retries = DEFAULT_RETRIES,
+    readTimeout = DEFAULT_READ_TIMEOUT,
+    onProgress,
+    signal
+  } = options;
+
   logger.info('[AudioDownloader] Downloading audio from URL:', url);
 
-  const response = await fetch(url);
+  let validator: string | null = null;     // ETag or Last-Modified of the first response
+  let total: number | null = null;
+  let headers: Headers | null = null;
+
+  for (let attempt = 0; ; attempt++) {
+    const written = await stat(filePath).then(s => s.size, () => 0);
+    const rangeHeaders: Record<string, string> = written > 0 && validator
+      ? { Range: `bytes=${written}-`, 'If-Range': validator }
+      : {};
+
+    const response = await fetchWithRetry(url, { ...options, retries: retries - attempt }, { headers: rangeHeaders });
+
+    // 206 continues the file, 200 (no range support, or the file changed) starts over
+    const resumed = response.status === 206 && written > 0;
+    if (!resumed) {
+      const length = Number(response.headers.get('content-length'));
+      total = Number.isFinite(length) && length > 0 ? length : null;
+      validator = response.headers.get('etag') || response.headers.get('last-modified');
+      headers = response.headers;
+    } else {
+      logger.info(`[AudioDownloader] Resuming at ${formatBytes(written)}`);
+    }
+
+    if (maxSize !== undefined && total !== null && total > maxSize) {
+      await response.body?.cancel();
+      throw new Error(`Download too large: ${formatBytes(total)} (limit ${formatBytes(maxSize)})`);
+    }
 
-  if (!response.ok) {
-    throw new Error(`Failed to download audio: ${response.status} ${response.statusText}`);
+    const handle = await open(filePath, resumed ? 'a' : 'w');
+    let downloaded = resumed ? written : 0;
+    const reader = response.body!.getReader();
+    let idleTimer: NodeJS.Timeout | undefined;
+
+    try {
+      while (true) {
+        // Cancel the read when no data arrives for `readTimeout`
+        const chunk = await Promise.race([
+          reader.read(),
+          new Promise<never>((_, reject) => {
+            idleTimer = setTimeout(() => reject(new Error(`No data received for ${readTimeout / 1000}s`)), readTimeout);
+          })
+        ]);
+        clearTimeout(idleTimer);
+        signal?.throwIfAborted();
+        if (chunk.done) break;
+
+        downloaded += chunk.value.length;
+        if (maxSize !== undefined && downloaded > maxSize) {
+          throw new PermanentDownloadError(`Download too large: over ${formatBytes(maxSize)}`);
+        }
+        await handle.write(chunk.value);
+        onProgress?.(downloaded, total);
+      }
+
+      if (total !== null && downloaded < total) {
+        throw new Error(`Connection closed at ${formatBytes(downloaded)} of ${formatBytes(total)}`);
+      }
+
+      const finalUrl = response.url || url;
+      const contentType = headers?.get('content-type') ?? undefined;
+      const contentDisposition = headers?.get('content-disposition') ?? undefined;
+      const extension = extensionFromHints({ contentType, contentDisposition, url: finalUrl }) ?? getFileExtension(url);
+      logger.info('[AudioDownloader] Downloaded audio:', { size: downloaded, extension, contentType });
+      return { path: filePath, extension, size: downloaded, finalUrl, contentType, contentDisposition };
+    } catch (error) {
+      if (error instanceof PermanentDownloadError || signal?.aborted || attempt >= retries) {
+        throw error;
+      }
+      logger.warn(`[AudioDownloader] ${error instanceof Error ? error.message : error}, resuming (${attempt + 1}/${retries})`);
+      await sleep(backoffDelay(attempt));
+    } finally {
+      clearTimeout(idleTimer);
+      reader.cancel().catch(() => {});
+      await handle.close();
+    }
   }
+}
+
+/**
+ * Download audio into memory. Prefer downloadToFile for long recordings.
+ */
+export async function downloadAudio(url: string, options: DownloadOptions = {}): Promise<DownloadResult> {
+  logger.info('[AudioDownloader] Downloading audio from URL:', url);
 
-  const arrayBuffer = await response.arrayBuffer();
-  const buffer = Buffer.from(arrayBuffer);
+  const response = await fetchWithRetry(url, options);
+  const buffer = Buffer.from(await response.arrayBuffer());
+  if (options.maxSize !== undefined && buffer.length > options.maxSize) {
+    throw new Error(`Download too large: ${formatBytes(buffer.length)} (limit ${formatBytes(options.maxSize)})`);
+  }
 
-  // Extract extension from URL
-  const extension = getFileExtension(url);
+  // Extension from the headers and final URL, else from the requested URL
+  const extension = extensionFromHints({
+    contentType: response.headers.get('content-type') ?? undefined,
+    contentDisposition: response.headers.get('content-disposition') ?? undefined,
+    url: response.url || url
+  }) ?? getFileExtension(url);
 
   logger.info('[AudioDownloader] Downloaded audio:', {
     size: buffer.length,
@@ -1,10 +1,58 @@
 /**
- * Audio file utilities - simplified version
- * Only handles file extension extraction, no complex MimeType logic needed
+ * Audio file utilities: extensions and format detection
+ *
+ * Headers and URLs only give hints. The downloaded or local file is inspected with
+ * ffprobe (magic bytes when ffprobe cannot tell), and the container and codec found
+ * there decide the extension of the stream-copied chunks.
  */
 
+import { open } from 'fs/promises';
+import { extname } from 'path';
+import { logger } from '../utils/logger';
+import { ffprobe } from './ffmpeg';
+
 // Supported audio extensions
-const SUPPORTED_EXTENSIONS = ['mp3', 'wav', 'm4a', 'ogg', 'mp4', 'webm', 'flac'];
+const SUPPORTED_EXTENSIONS = ['mp3', 'wav', 'm4a', 'm4b', 'aac', 'ogg', 'oga', 'opus', 'mp4', 'webm', 'flac'];
+
+export interface AudioFormat {
+  container: string;      // e.g. mp3, mp4, ogg, webm, wav, flac, aac (ADTS)
+  codec?: string;         // Audio codec when known, e.g. mp3, aac, opus, vorbis, flac, pcm_s16le
+  extension: string;      // Extension for chunks cut with stream copy
+  detectedBy: 'ffprobe' | 'magic' | 'hint';
+}
+
+// What the transport said about the file, used when the content cannot be inspected
+export interface FormatHints {
+  contentType?: string;
+  contentDisposition?: string;
+  url?: string;           // Final URL after redirects, or the local path
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/mpeg3': 'mp3',
+  'audio/x-mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/m4a': 'm4a',
+  'audio/x-m4b': 'm4b',
+  'audio/aac': 'aac',
+  'audio/aacp': 'aac',
+  'audio/x-aac': 'aac',
+  'audio/ogg': 'ogg',
+  'application/ogg': 'ogg',
+  'audio/opus': 'opus',
+  'audio/wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/vnd.wave': 'wav',
+  'audio/flac': 'flac',
+  'audio/x-flac': 'flac',
+  'audio/webm': 'webm',
+  'video/webm': 'webm',
+  'video/mp4': 'mp4'
+};
 
 /**
  * Extract file extension from URL or filename
@@ -45,3 +93,208 @@ export function isSupportedExtension(ext: string): boolean {
 export function getSupportedExtensions(): string[] {
   return [...SUPPORTED_EXTENSIONS];
 }
+
+/**
+ * Extension named by a Content-Type header, if it is a known audio type
+ */
+export function extensionFromContentType(contentType: string | undefined): string | undefined {
+  const type = contentType?.split(';')[0].trim().toLowerCase();
+  return type ? CONTENT_TYPES[type] : undefined;
+}
+
+/**
+ * File name from a Content-Disposition header (filename*= preferred over filename=)
+ */
+export function filenameFromContentDisposition(header: string | undefined): string | undefined {
+  if (!header) return undefined;
+  const extended = header.match(/filename\*\s*=\s*(?:[\w-]+)?'[^']*'([^;]+)/i);
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[1].trim());
+    } catch {
+      // Fall through to the plain parameter
+    }
+  }
+  const plain = header.match(/filename\s*=\s*("([^"]*)"|[^;]+)/i);
+  return plain ? (plain[2] ?? plain[1]).trim() : undefined;
+}
+
+// Supported extension of a URL or path, without the mp3 fallback
+function knownExtension(urlOrPath: string | undefined): string | undefined {
+  if (!urlOrPath) return undefined;
+  let pathname = urlOrPath;
+  try {
+    pathname = new URL(urlOrPath).pathname;
+  } catch {
+    // Local path
+  }
+  const ext = extname(pathname).slice(1).toLowerCase();
+  return isSupportedExtension(ext) ? ext : undefined;
+}
+
+/**
+ * Best guess from headers and URL: Content-Type, then the Content-Disposition
+ * file name, then the URL path
+ */
+export function extensionFromHints(hints: FormatHints): string | undefined {
+  return extensionFromContentType(hints.contentType)
+    ?? knownExtension(filenameFromContentDisposition(hints.contentDisposition))
+    ?? knownExtension(hints.url);
+}
+
+/**
+ * Chunk extension for a container and codec. Stream copy keeps the codec, so the
+ * chunk container must accept it: ADTS AAC goes into m4a, Opus and Vorbis into ogg.
+ */
+export function chunkExtension(container: string, codec?: string): string | undefined {
+  switch (codec) {
+    case 'mp3':
+      return 'mp3';
+    case 'flac':
+      return 'flac';
+    case 'aac':
+    case 'alac':
+      return container === 'mp4' ? 'mp4' : 'm4a';
+    case 'opus':
+    case 'vorbis':
+      return container === 'webm' ? 'webm' : 'ogg';
+  }
+  if (codec?.startsWith('pcm_')) return 'wav';
+  if (codec) return undefined;
+
+  // Codec unknown, trust the container (or a file extension naming it)
+  const byContainer: Record<string, string> = {
+    mp3: 'mp3', m4a: 'm4a', m4b: 'm4a', mp4: 'mp4', aac: 'm4a',
+    ogg: 'ogg', oga: 'ogg', opus: 'ogg', webm: 'webm', wav: 'wav', flac: 'flac'
+  };
+  return byContainer[container];
+}
+
+// ffprobe format names are lists such as "mov,mp4,m4a,3gp,3g2,mj2" or "matroska,webm"
+function containerFromFormatName(formatName: string, hint?: string): string {
+  const names = formatName.split(',');
+  if (names.includes('mp4') || names.includes('mov')) {
+    return hint === 'mp4' ? 'mp4' : 'm4a';
+  }
+  if (names.includes('webm') || names.includes('matroska')) return 'webm';
+  return names[0];
+}
+
+/**
+ * Container and audio codec reported by ffprobe, null when ffprobe fails
+ */
+export async function probeAudioFormat(
+  filePath: string,
+  signal?: AbortSignal
+): Promise<{ formatName: string; codec?: string } | null> {
+  try {
+    const { stdout } = await ffprobe(
+      ['-v', 'quiet', '-show_entries', 'format=format_name:stream=codec_type,codec_name', '-of', 'json', filePath],
+      { signal }
+    );
+    const data = JSON.parse(stdout) as {
+      format?: { format_name?: string };
+      streams?: { codec_type?: string; codec_name?: string }[];
+    };
+    if (!data.format?.format_name) return null;
+    const audio = data.streams?.find(stream => stream.codec_type === 'audio');
+    return { formatName: data.format.format_name, codec: audio?.codec_name ?? 'none' };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    return null;
+  }
+}
+
+/**
+ * Recognise common audio containers from the first bytes of a file
+ */
+export function sniffAudioFormat(header: Buffer): { container: string; codec?: string } | null {
+  const ascii = (start: number, end: number) => header.subarray(start, end).toString('latin1');
+
+  if (ascii(0, 3) === 'ID3') return { container: 'mp3', codec: 'mp3' };
+  if (ascii(0, 4) === 'fLaC') return { container: 'flac', codec: 'flac' };
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WAVE') return { container: 'wav' };
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    return { container: brand.startsWith('M4') ? 'm4a' : 'mp4' };
+  }
+  if (ascii(0, 4) === 'OggS') {
+    const page = ascii(0, 128);
+    if (page.includes('OpusHead')) return { container: 'ogg', codec: 'opus' };
+    if (page.includes('vorbis')) return { container: 'ogg', codec: 'vorbis' };
+    if (page.includes('FLAC')) return { container: 'ogg', codec: 'flac' };
+    return { container: 'ogg' };
+  }
+  if (header.readUInt32BE(0) === 0x1a45dfa3) return { container: 'webm' };
+
+  // Frame sync: ADTS has layer bits 00, MPEG audio layer III does not
+  if (header.length >= 2 && header[0] === 0xff && (header[1] & 0xe0) === 0xe0) {
+    return (header[1] & 0x06) === 0
+      ? { container: 'aac', codec: 'aac' }
+      : { container: 'mp3', codec: 'mp3' };
+  }
+  return null;
+}
+
+// Text documents servers return instead of audio (error pages, feeds, API responses)
+function describeText(header: Buffer): string | null {
+  const text = header.subarray(0, 64).toString('utf-8').trimStart().toLowerCase();
+  if (text.startsWith('<!doctype html') || text.startsWith('<html')) return 'an HTML page';
+  if (text.startsWith('<?xml') || text.startsWith('<rss')) return 'an XML document';
+  if (text.startsWith('{') || text.startsWith('[')) return 'JSON';
+  return null;
+}
+
+/**
+ * Detect the real format of an audio file. Throws when the file is not audio
+ * or its codec cannot be cut with stream copy, listing what was detected.
+ */
+export async function detectAudioFormat(
+  filePath: string,
+  hints: FormatHints = {},
+  signal?: AbortSignal
+): Promise<AudioFormat> {
+  const hint = extensionFromHints(hints);
+  const detected: string[] = [];
+  if (hints.contentType) detected.push(`Content-Type ${hints.contentType}`);
+  if (hint) detected.push(`name suggests .${hint}`);
+
+  const probed = await probeAudioFormat(filePath, signal);
+  if (probed) {
+    const container = containerFromFormatName(probed.formatName, hint);
+    const extension = chunkExtension(container, probed.codec);
+    detected.push(`ffprobe: ${probed.formatName} container, ${probed.codec} codec`);
+    if (extension && probed.codec !== 'none') {
+      logger.info('[Audio] Detected format:', { container, codec: probed.codec, extension });
+      return { container, codec: probed.codec, extension, detectedBy: 'ffprobe' };
+    }
+    throw new Error(`Unsupported audio input: ${filePath}\nDetected: ${detected.join('; ')}`);
+  }
+
+  const handle = await open(filePath, 'r');
+  const header = Buffer.alloc(128);
+  let bytesRead: number;
+  try {
+    ({ bytesRead } = await handle.read(header, 0, header.length, 0));
+  } finally {
+    await handle.close();
+  }
+
+  const sniffed = bytesRead >= 4 ? sniffAudioFormat(header.subarray(0, bytesRead)) : null;
+  if (sniffed) {
+    const extension = chunkExtension(sniffed.container, sniffed.codec)!;
+    logger.info('[Audio] Detected format from magic bytes:', { ...sniffed, extension });
+    return { ...sniffed, extension, detectedBy: 'magic' };
+  }
+
+  // Not recognised but not text either: go with the headers or file name
+  const text = describeText(header.subarray(0, bytesRead));
+  const hinted = hint ? chunkExtension(hint) : undefined;
+  if (bytesRead > 0 && !text && hint && hinted) {
+    logger.info('[Audio] Using format from headers or file name:', hint);
+    return { container: hint, extension: hinted, detectedBy: 'hint' };
+  }
+  detected.push(`content: ${text ?? (bytesRead > 0 ? `unrecognised bytes ${header.subarray(0, 4).toString('hex')}` : 'empty file')}`);
+
+  throw new Error(`Unsupported audio input: ${filePath}\nDetected: ${detected.join('; ')}`);
+}
@@ -0,0 +1,233 @@
+/**
+ * Persistent per-chunk transcription cache
+ *
+ * Layout: <cacheDir>/<audioHash>/meta.json plus one <chunkKey>.json per finished chunk.
+ * The chunk key covers the chunk boundaries and every setting that changes the result,
+ * so a re-run with the same settings only needs to transcribe chunks that are missing.
+ */
+
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import { basename, join } from 'path';
+import { homedir } from 'os';
+import { logger } from '../utils/logger';
+import { ChunkBoundary, ChunkResult } from './types';
+
+// off: no cache, write: store finished chunks, resume: also reuse stored chunks
+export type CacheMode = 'off' | 'write' | 'resume';
+
+export interface ChunkCacheSettings {
+  language: string;
+  model: string;
+  outputFormat: string;
+  wordTimestamps?: boolean;
+  formatText?: boolean;   // srt output with a formatted transcript text
+  chatModel?: string;     // Model that formatted the text, set whenever chunks are formatted
+  preprocess?: string;    // Chunk transcoding settings, see describePreprocess
+}
+
+export interface CacheEntryInfo {
+  hash: string;
+  source: string;
+  size: number;           // bytes of the source audio
+  chunks: number;
+  diskSize: number;       // bytes used by the cache entry
+  updatedAt: Date;
+}
+
+interface CacheMeta {
+  source: string;
+  size: number;
+  createdAt: string;
+}
+
+/**
+ * Resolve the cache directory (PT_CACHE_DIR, then XDG_CACHE_HOME/pt, then ~/.cache/pt)
+ */
+export function getCacheDir(): string {
+  if (process.env.PT_CACHE_DIR) {
+    return process.env.PT_CACHE_DIR;
+  }
+  return join(process.env.XDG_CACHE_HOME || join(homedir(), '.cache'), 'pt');
+}
+
+/**
+ * Compute the SHA-256 of a file without loading it into memory
+ */
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolvePromise, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(filePath)
+      .on('data', data => hash.update(data))
+      .on('error', reject)
+      .on('end', () => resolvePromise(hash.digest('hex')));
+  });
+}
+
+function chunkKey(chunk: ChunkBoundary, settings: ChunkCacheSettings): string {
+  return createHash('sha256')
+    .update(JSON.stringify({
+      start: chunk.start,
+      duration: chunk.duration,
+      language: settings.language,
+      model: settings.model,
+      outputFormat: settings.outputFormat,
+      // Only part of the key when set, so earlier entries stay valid
+      ...(settings.wordTimestamps ? { wordTimestamps: true } : {}),
+      ...(settings.formatText ? { formatText: true } : {}),
+      ...(settings.chatModel ? { chatModel: settings.chatModel } : {}),
+      ...(settings.preprocess ? { preprocess: settings.preprocess } : {})
+    }))
+    .digest('hex')
+    .slice(0, 32);
+}
+
+export class ChunkCache {
+  private entryDir: string;
+  private settings: ChunkCacheSettings;
+  private readEnabled: boolean;
+
+  private constructor(entryDir: string, settings: ChunkCacheSettings, readEnabled: boolean) {
+    this.entryDir = entryDir;
+    this.settings = settings;
+    this.readEnabled = readEnabled;
+  }
+
+  /**
+   * Open (and create if needed) the cache entry for an audio file
+   */
+  static async open(
+    audioPath: string,
+    settings: ChunkCacheSettings,
+    mode: Exclude<CacheMode, 'off'>,
+    sourceName: string = basename(audioPath)
+  ): Promise<ChunkCache> {
+    const [hash, audioStats] = await Promise.all([hashFile(audioPath), stat(audioPath)]);
+    const entryDir = join(getCacheDir(), hash);
+
+    await mkdir(entryDir, { recursive: true });
+    const metaPath = join(entryDir, 'meta.json');
+    try {
+      await stat(metaPath);
+    } catch {
+      const meta: CacheMeta = {
+        source: sourceName,
+        size: audioStats.size,
+        createdAt: new Date().toISOString()
+      };
+      await writeFile(metaPath, JSON.stringify(meta, null, 2), 'utf-8');
+    }
+
+    logger.info('[Cache] Using cache entry:', { hash: hash.slice(0, 12), mode });
+    return new ChunkCache(entryDir, settings, mode === 'resume');
+  }
+
+  /**
+   * Open an existing cache entry for reading only, null when there is none
+   */
+  static async peek(audioPath: string, settings: ChunkCacheSettings): Promise<ChunkCache | null> {
+    const entryDir = join(getCacheDir(), await hashFile(audioPath));
+    try {
+      await stat(join(entryDir, 'meta.json'));
+    } catch {
+      return null;
+    }
+    return new ChunkCache(entryDir, settings, true);
+  }
+
+  private chunkPath(chunk: ChunkBoundary): string {
+    return join(this.entryDir, `${chunkKey(chunk, this.settings)}.json`);
+  }
+
+  /**
+   * Get a stored chunk result, or null when missing or reading is disabled
+   */
+  async get(chunk: ChunkBoundary): Promise<ChunkResult | null> {
+    if (!this.readEnabled) return null;
+
+    try {
+      const stored = JSON.parse(await readFile(this.chunkPath(chunk), 'utf-8')) as ChunkResult;
+      return { ...stored, index: chunk.index };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Store a finished chunk result. Cache failures never fail the transcription.
+   */
+  async set(chunk: ChunkBoundary, result: ChunkResult): Promise<void> {
+    try {
+      await writeFile(this.chunkPath(chunk), JSON.stringify(result), 'utf-8');
+    } catch (error) {
+      logger.warn('[Cache] Failed to store chunk result:', error);
+    }
+  }
+}
+
+async function directorySize(dir: string): Promise<{ files: string[]; size: number; updatedAt: Date }> {
+  const files = await readdir(dir);
+  let size = 0;
+  let updatedAt = new Date(0);
+  for (const file of files) {
+    const fileStats = await stat(join(dir, file));
+    size += fileStats.size;
+    if (fileStats.mtime > updatedAt) {
+      updatedAt = fileStats.mtime;
+    }
+  }
+  return { files, size, updatedAt };
+}
+
+/**
+ * List all cache entries, most recently updated first
+ */
+export async function listCacheEntries(): Promise<CacheEntryInfo[]> {
+  const cacheDir = getCacheDir();
+  let hashes: string[];
+  try {
+    hashes = await readdir(cacheDir);
+  } catch {
+    return [];
+  }
+
+  const entries: CacheEntryInfo[] = [];
+  for (const hash of hashes) {
+    const entryDir = join(cacheDir, hash);
+    try {
+      const meta = JSON.parse(await readFile(join(entryDir, 'meta.json'), 'utf-8')) as CacheMeta;
+      const { files, size, updatedAt } = await directorySize(entryDir);
+      entries.push({
+        hash,
+        source: meta.source,
+        size: meta.size,
+        chunks: files.filter(file => file !== 'meta.json').length,
+        diskSize: size,
+        updatedAt
+      });
+    } catch {
+      // Not a cache entry (or a broken one), ignore
+    }
+  }
+
+  return entries.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+/**
+ * Remove cache entries whose hash starts with the given prefix, or all entries.
+ * Returns the number of removed entries.
+ */
+export async function clearCache(hashPrefix?: string): Promise<number> {
+  const entries = await listCacheEntries();
+  const targets = hashPrefix
+    ? entries.filter(entry => entry.hash.startsWith(hashPrefix))
+    : entries;
+
+  for (const entry of targets) {
+    await rm(join(getCacheDir(), entry.hash), { recursive: true, force: true });
+  }
+
+  logger.info(`[Cache] Removed ${targets.length} cache entries`);
+  return targets.length;
+}
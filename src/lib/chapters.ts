@@ -0,0 +1,288 @@
+/**
+ * Chapter generation from the subtitle timeline, and chapter export formats
+ *
+ * The timeline is condensed into timestamped blocks that fit the context budget,
+ * the chat model picks chapter starts and titles, and the result is snapped to
+ * cue starts and cleaned up (first chapter at 0, minimum chapter length).
+ *
+ * json:       Podcasting 2.0 chapters (https://github.com/Podcastindex-org/podcast-namespace)
+ * youtube:    "0:00 Title" lines for a video description
+ * markdown:   table of contents
+ * ffmetadata: ffmpeg metadata file for writing chapter markers into the audio
+ */
+
+import { logger } from '../utils/logger';
+import { formatDuration } from '../utils/format';
+import { createOpenAIClient, OpenAIConfig, DEFAULT_CHAT_MODEL } from './openai';
+import { estimateTokens, DEFAULT_CONTEXT_TOKENS, PROMPT_OVERHEAD_TOKENS } from './summary';
+import { withRetry, RequestPolicy } from './retry';
+import { languageName } from './languages';
+import { SrtEntry } from './types';
+
+export interface Chapter {
+  start: number;          // seconds
+  end: number;            // seconds
+  title: string;
+}
+
+export type ChapterFormat = 'json' | 'youtube' | 'markdown' | 'ffmetadata';
+
+export const CHAPTER_FORMATS: ChapterFormat[] = ['json', 'youtube', 'markdown', 'ffmetadata'];
+
+export interface ChapterOptions {
+  openaiConfig?: OpenAIConfig;
+  model?: string;
+  contextTokens?: number;
+  duration?: number;      // Length of the audio, defaults to the end of the last cue
+  minLength?: number;     // Shortest chapter in seconds (default 30)
+  outputLanguage?: string;  // Write the titles in this language instead of the transcript's
+  policy?: RequestPolicy; // Retries and timeout of the request
+}
+
+const DEFAULT_MIN_CHAPTER = 30;
+
+// Completion tokens reserved for the chapter list
+export const CHAPTERS_MAX_TOKENS = 1500;
+
+// Timeline block length to start with, doubled until the timeline fits
+const BASE_BLOCK_SECONDS = 30;
+
+const CHAPTERS_SYSTEM_PROMPT = `You split a timestamped transcript into chapters for a podcast or video.
+
+Each line starts with the time in seconds in square brackets. Choose where the topic changes:
+- Between 3 and 15 chapters depending on the length and structure of the content
+- The first chapter starts at 0
+- Chapter titles are short (2-8 words), specific and in the language of the transcript
+
+Answer with JSON only, in this form:
+{"chapters": [{"start": 0, "title": "Introduction"}, {"start": 312, "title": "..."}]}`;
+
+// Group cues into blocks of about `blockSeconds`, one line per block
+function buildTimeline(entries: SrtEntry[], blockSeconds: number): string {
+  const lines: string[] = [];
+  let blockStart = -Infinity;
+  let texts: string[] = [];
+
+  const flush = () => {
+    if (texts.length > 0) {
+      lines.push(`[${Math.floor(blockStart)}] ${texts.join(' ')}`);
+    }
+  };
+
+  for (const entry of entries) {
+    if (entry.startTime - blockStart >= blockSeconds) {
+      flush();
+      blockStart = entry.startTime;
+      texts = [];
+    }
+    texts.push(entry.text.replace(/\n/g, ' '));
+  }
+  flush();
+  return lines.join('\n');
+}
+
+// Condense the timeline until it fits the budget, cutting block text as a last resort
+function fitTimeline(entries: SrtEntry[], budget: number, duration: number): string {
+  let blockSeconds = BASE_BLOCK_SECONDS;
+  let timeline = buildTimeline(entries, blockSeconds);
+  while (estimateTokens(timeline) > budget && blockSeconds < duration) {
+    blockSeconds *= 2;
+    timeline = buildTimeline(entries, blockSeconds);
+  }
+
+  const tokens = estimateTokens(timeline);
+  if (tokens > budget) {
+    const lines = timeline.split('\n');
+    const ratio = budget / tokens;
+    timeline = lines.map(line => line.slice(0, Math.max(40, Math.floor(line.length * ratio)))).join('\n');
+  }
+  return timeline;
+}
+
+/**
+ * Parse the model's answer, tolerating text around the JSON object
+ */
+export function parseChapterResponse(content: string): { start: number; title: string }[] {
+  const jsonStart = content.indexOf('{');
+  const jsonEnd = content.lastIndexOf('}');
+  if (jsonStart < 0 || jsonEnd <= jsonStart) {
+    throw new Error('No chapter list in the model response');
+  }
+
+  const data = JSON.parse(content.slice(jsonStart, jsonEnd + 1)) as { chapters?: unknown };
+  if (!Array.isArray(data.chapters)) {
+    throw new Error('No chapter list in the model response');
+  }
+
+  return data.chapters
+    .map(item => item as { start?: unknown; title?: unknown })
+    .filter(item => Number.isFinite(Number(item.start)) && typeof item.title === 'string' && item.title.trim())
+    .map(item => ({ start: Number(item.start), title: String(item.title).trim() }));
+}
+
+/**
+ * Snap chapter starts to cue starts, force the first chapter to 0,
+ * drop chapters shorter than `minLength` and fill in end times
+ */
+export function normalizeChapters(
+  raw: { start: number; title: string }[],
+  entries: SrtEntry[],
+  duration: number,
+  minLength: number = DEFAULT_MIN_CHAPTER
+): Chapter[] {
+  const cueStarts = entries.map(entry => entry.startTime);
+  const snap = (time: number) => cueStarts.reduce(
+    (best, start) => (Math.abs(start - time) < Math.abs(best - time) ? start : best),
+    cueStarts[0] ?? time
+  );
+
+  const sorted = raw
+    .filter(chapter => chapter.start >= 0 && chapter.start < duration)
+    .map(chapter => ({ ...chapter, start: snap(chapter.start) }))
+    .sort((a, b) => a.start - b.start);
+
+  const kept: { start: number; title: string }[] = [];
+  for (const chapter of sorted) {
+    const previous = kept[kept.length - 1];
+    if (!previous) {
+      kept.push({ ...chapter, start: 0 });
+    } else if (chapter.start - previous.start >= minLength) {
+      kept.push(chapter);
+    }
+  }
+
+  // The last chapter also needs room before the end of the audio
+  while (kept.length > 1 && duration - kept[kept.length - 1].start < minLength) {
+    kept.pop();
+  }
+
+  return kept.map((chapter, i) => ({
+    start: Math.round(chapter.start * 1000) / 1000,
+    end: Math.round((i + 1 < kept.length ? kept[i + 1].start : duration) * 1000) / 1000,
+    title: chapter.title
+  }));
+}
+
+/**
+ * Generate titled chapters from a subtitle timeline
+ */
+export async function generateChapters(entries: SrtEntry[], options: ChapterOptions = {}): Promise<Chapter[]> {
+  const {
+    openaiConfig,
+    model = DEFAULT_CHAT_MODEL,
+    contextTokens = DEFAULT_CONTEXT_TOKENS,
+    minLength = DEFAULT_MIN_CHAPTER,
+    policy,
+    outputLanguage
+  } = options;
+
+  if (entries.length === 0) {
+    return [];
+  }
+  const duration = options.duration ?? entries[entries.length - 1].endTime;
+
+  const client = createOpenAIClient(openaiConfig);
+  const budget = contextTokens - CHAPTERS_MAX_TOKENS - PROMPT_OVERHEAD_TOKENS;
+  const timeline = fitTimeline(entries, budget, duration);
+
+  try {
+    logger.info('[Chapters] Starting chapter generation');
+
+    const response = await withRetry('Chapters', signal => client.chat.completions.create({
+      model,
+      messages: [
+        {
+          role: 'system',
+          content: CHAPTERS_SYSTEM_PROMPT
+            + (outputLanguage ? `\n\nWrite the titles in ${languageName(outputLanguage)}, whatever the language of the transcript.` : '')
+        },
+        {
+          role: 'user',
+          content: `Total length: ${Math.round(duration)} seconds\n\n${timeline}`
+        }
+      ],
+      temperature: 0.3,
+      max_tokens: CHAPTERS_MAX_TOKENS
+    }, { signal }), policy);
+    policy?.usage?.recordTokens('chapters', response.usage);
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('No chapters generated');
+    }
+
+    const chapters = normalizeChapters(parseChapterResponse(content), entries, duration, minLength);
+    logger.info(`[Chapters] Generated ${chapters.length} chapters`);
+    return chapters;
+  } catch (error) {
+    logger.error('[Chapters] Error:', error);
+    throw error;
+  }
+}
+
+export function chaptersToPodcastJson(chapters: Chapter[]): string {
+  return JSON.stringify(
+    {
+      version: '1.2.0',
+      chapters: chapters.map(chapter => ({
+        startTime: chapter.start,
+        endTime: chapter.end,
+        title: chapter.title
+      }))
+    },
+    null,
+    2
+  );
+}
+
+export function chaptersToYouTube(chapters: Chapter[]): string {
+  return chapters.map(chapter => `${formatDuration(chapter.start)} ${chapter.title}`).join('\n');
+}
+
+export function chaptersToMarkdown(chapters: Chapter[]): string {
+  return chapters.map(chapter => `- **${formatDuration(chapter.start)}** ${chapter.title}`).join('\n');
+}
+
+// ffmetadata values escape '=', ';', '#', '\' and newlines with a backslash
+function escapeFfmetadata(value: string): string {
+  return value.replace(/[=;#\\\n]/g, char => `\\${char}`);
+}
+
+export function chaptersToFfmetadata(chapters: Chapter[]): string {
+  const blocks = chapters.map(chapter => [
+    '[CHAPTER]',
+    'TIMEBASE=1/1000',
+    `START=${Math.round(chapter.start * 1000)}`,
+    `END=${Math.round(chapter.end * 1000)}`,
+    `title=${escapeFfmetadata(chapter.title)}`
+  ].join('\n'));
+  return [';FFMETADATA1', ...blocks].join('\n') + '\n';
+}
+
+export function isChapterFormat(format: string): format is ChapterFormat {
+  return CHAPTER_FORMATS.includes(format as ChapterFormat);
+}
+
+export function writeChapters(chapters: Chapter[], format: ChapterFormat): string {
+  switch (format) {
+    case 'json':
+      return chaptersToPodcastJson(chapters);
+    case 'markdown':
+      return chaptersToMarkdown(chapters);
+    case 'ffmetadata':
+      return chaptersToFfmetadata(chapters);
+    default:
+      return chaptersToYouTube(chapters);
+  }
+}
+
+/**
+ * Pick a chapter format from a file extension (.json, .md, .ffmeta/.ffmetadata, else youtube)
+ */
+export function chapterFormatFromPath(filePath: string): ChapterFormat {
+  const lower = filePath.toLowerCase();
+  if (lower.endsWith('.json')) return 'json';
+  if (lower.endsWith('.md')) return 'markdown';
+  if (lower.endsWith('.ffmeta') || lower.endsWith('.ffmetadata')) return 'ffmetadata';
+  return 'youtube';
+}
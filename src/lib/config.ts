@@ -0,0 +1,185 @@
+/**
+ * Config files with named profiles
+ *
+ * User config:    ~/.config/pt/config.json
+ * Project config: ./pt.config.json (overrides the user config key by key)
+ *
+ * Precedence for every setting, highest first:
+ *   command-line flag > environment variable > project config > user config > built-in default
+ * The profile is chosen by --profile, then PT_PROFILE, then "activeProfile" in the config files.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { homedir } from 'os';
+import { DEFAULT_CHAT_MODEL } from './openai';
+import { DEFAULT_CONTEXT_TOKENS } from './summary';
+
+export interface Settings {
+  provider: string;
+  baseUrl?: string;
+  apiKey?: string;
+  transcriptionModel?: string;
+  chatModel: string;
+  contextTokens: number;
+  concurrency: number;
+  chunkDuration: number;
+  language: string;
+  outputFormat: string;
+}
+
+export type SettingKey = keyof Settings;
+
+export type SettingSource = 'flag' | 'env' | 'project' | 'user' | 'default';
+
+export interface ConfigFile {
+  activeProfile?: string;
+  profiles: Record<string, Partial<Settings>>;
+}
+
+export interface ResolvedSettings {
+  profile: string;
+  values: Settings;
+  sources: Record<SettingKey, SettingSource>;
+}
+
+export type ConfigScope = 'user' | 'project';
+
+export const DEFAULT_PROFILE = 'default';
+
+export const DEFAULT_SETTINGS: Settings = {
+  provider: 'openai',
+  chatModel: DEFAULT_CHAT_MODEL,
+  contextTokens: DEFAULT_CONTEXT_TOKENS,
+  concurrency: 3,
+  chunkDuration: 300,
+  language: 'auto',
+  outputFormat: 'text'
+};
+
+// Environment variable for each setting
+export const SETTING_ENV: Record<SettingKey, string> = {
+  provider: 'PT_PROVIDER',
+  baseUrl: 'BASE_URL',
+  apiKey: 'API_KEY',
+  transcriptionModel: 'PT_TRANSCRIPTION_MODEL',
+  chatModel: 'PT_CHAT_MODEL',
+  contextTokens: 'PT_CONTEXT_TOKENS',
+  concurrency: 'PT_CONCURRENCY',
+  chunkDuration: 'PT_CHUNK_DURATION',
+  language: 'PT_LANGUAGE',
+  outputFormat: 'PT_OUTPUT_FORMAT'
+};
+
+export const SETTING_KEYS = Object.keys(SETTING_ENV) as SettingKey[];
+
+const NUMERIC_KEYS: SettingKey[] = ['contextTokens', 'concurrency', 'chunkDuration'];
+
+export function getConfigPath(scope: ConfigScope, cwd: string = process.cwd()): string {
+  return scope === 'user'
+    ? join(homedir(), '.config', 'pt', 'config.json')
+    : resolve(cwd, 'pt.config.json');
+}
+
+export function isSettingKey(key: string): key is SettingKey {
+  return SETTING_KEYS.includes(key as SettingKey);
+}
+
+/**
+ * Parse a string value for a setting, validating numeric settings
+ */
+export function parseSettingValue<K extends SettingKey>(key: K, value: string): Settings[K] {
+  if (NUMERIC_KEYS.includes(key)) {
+    const number = Number(value);
+    if (!Number.isFinite(number) || number <= 0) {
+      throw new Error(`Invalid value for ${key}: ${value} (expected a positive number)`);
+    }
+    return number as Settings[K];
+  }
+  return value as Settings[K];
+}
+
+function readConfigSync(path: string): ConfigFile {
+  if (!existsSync(path)) {
+    return { profiles: {} };
+  }
+  try {
+    const data = JSON.parse(readFileSync(path, 'utf-8')) as Partial<ConfigFile>;
+    return { activeProfile: data.activeProfile, profiles: data.profiles ?? {} };
+  } catch (error) {
+    throw new Error(`Invalid config file ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Load a config file, returning an empty config when it does not exist
+ */
+export async function loadConfig(scope: ConfigScope, cwd?: string): Promise<ConfigFile> {
+  return readConfigSync(getConfigPath(scope, cwd));
+}
+
+export async function saveConfig(scope: ConfigScope, config: ConfigFile, cwd?: string): Promise<string> {
+  const path = getConfigPath(scope, cwd);
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(config, null, 2) + '\n', 'utf-8');
+  return path;
+}
+
+/**
+ * Resolve every setting for a profile, recording where each value came from
+ * `flags` holds only values given explicitly on the command line
+ */
+export function resolveSettings(
+  flags: Partial<Settings> = {},
+  profileName?: string,
+  cwd?: string
+): ResolvedSettings {
+  const user = readConfigSync(getConfigPath('user', cwd));
+  const project = readConfigSync(getConfigPath('project', cwd));
+
+  const profile = profileName
+    || process.env.PT_PROFILE
+    || project.activeProfile
+    || user.activeProfile
+    || DEFAULT_PROFILE;
+
+  const knownProfile = profile === DEFAULT_PROFILE || profile in user.profiles || profile in project.profiles;
+  if (!knownProfile) {
+    throw new Error(`Unknown profile: ${profile}`);
+  }
+
+  const userProfile = user.profiles[profile] ?? {};
+  const projectProfile = project.profiles[profile] ?? {};
+
+  const values = {} as Record<SettingKey, unknown>;
+  const sources = {} as Record<SettingKey, SettingSource>;
+
+  for (const key of SETTING_KEYS) {
+    const envValue = process.env[SETTING_ENV[key]];
+    const layers: [SettingSource, unknown][] = [
+      ['flag', flags[key]],
+      ['env', envValue !== undefined && envValue !== '' ? parseSettingValue(key, envValue) : undefined],
+      ['project', projectProfile[key]],
+      ['user', userProfile[key]],
+      ['default', DEFAULT_SETTINGS[key]]
+    ];
+    const [source, value] = layers.find(([, layerValue]) => layerValue !== undefined) ?? ['default', undefined];
+    values[key] = value;
+    sources[key] = source;
+  }
+
+  return { profile, values: values as unknown as Settings, sources };
+}
+
+/**
+ * Mask secrets for display
+ */
+export function displaySettingValue(key: SettingKey, value: unknown): string {
+  if (value === undefined) return '(not set)';
+  if (key === 'apiKey') {
+    const text = String(value);
+    return text.length > 8 ? `${text.slice(0, 3)}...${text.slice(-4)}` : '****';
+  }
+  return String(value);
+}
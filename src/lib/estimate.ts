@@ -0,0 +1,257 @@
+/**
+ * Cost and request estimates for a transcription, made before any API call
+ *
+ * Transcription is priced per audio minute, chat requests (formatting, summaries,
+ * chapters, translation) per token. Transcript tokens are not known before the audio
+ * is transcribed, so they are estimated from the audio length; chat outputs are
+ * counted at the completion limits the requests use, so estimates lean high.
+ *
+ * Prices are USD. The built-in table can be extended or overridden per model in
+ * ~/.config/pt/prices.json:
+ *   { "whisper-1": { "perMinute": 0.006 }, "gpt-4o-mini": { "input": 0.15, "output": 0.6 } }
+ */
+
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { homedir } from 'os';
+import { join } from 'path';
+import { DEFAULT_CONTEXT_TOKENS, PROMPT_OVERHEAD_TOKENS, SECTION_MAX_TOKENS, SUMMARY_MAX_TOKENS } from './summary';
+import { CHAPTERS_MAX_TOKENS } from './chapters';
+import { CUE_BATCH_SIZE } from './translate';
+
+export interface ModelPrice {
+  perMinute?: number;     // USD per audio minute (transcription models)
+  input?: number;         // USD per million input tokens (chat models)
+  output?: number;        // USD per million output tokens
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export type EstimateStage = 'transcription' | 'formatting' | 'summary' | 'chapters' | 'translation';
+
+export interface StageEstimate {
+  stage: EstimateStage;
+  model: string;
+  calls: number;
+  minutes?: number;       // Audio minutes sent (transcription)
+  inputTokens?: number;
+  outputTokens?: number;
+  cost?: number;          // USD, missing when the model has no price
+}
+
+export interface CostEstimate {
+  stages: StageEstimate[];
+  cost: number;           // USD of the priced stages
+  unpriced: string[];     // Models without a price, not included in `cost`
+}
+
+export interface EstimateOptions {
+  model: string;          // Transcription model
+  local: boolean;         // Local provider: no transcription cost, no formatting
+  chatModel: string;
+  contextTokens?: number;
+  totalMinutes: number;   // Length of the audio
+  pendingMinutes: number; // Chunk audio still to transcribe (not cached)
+  pendingChunks: number;
+  formatting: boolean;    // Text output: each transcribed chunk is formatted by the chat model
+  summaryTemplates: number;   // 0 without a summary
+  chapters: boolean;
+  translateText: boolean;
+  translateEntries: boolean;
+}
+
+// List prices when this table was written, USD
+export const DEFAULT_PRICES: PriceTable = {
+  'whisper-1': { perMinute: 0.006 },
+  'gpt-4o-transcribe': { perMinute: 0.006 },
+  'gpt-4o-mini-transcribe': { perMinute: 0.003 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 }
+};
+
+// Speech runs at about 150 words a minute, roughly 200 tokens
+const TOKENS_PER_MINUTE = 200;
+
+// Subtitle cues per minute of speech, for translation batches
+const CUES_PER_MINUTE = 20;
+
+export function getPricesPath(): string {
+  return join(homedir(), '.config', 'pt', 'prices.json');
+}
+
+/**
+ * The built-in prices with the entries of prices.json on top
+ */
+export async function loadPrices(path: string = getPricesPath()): Promise<PriceTable> {
+  if (!existsSync(path)) {
+    return DEFAULT_PRICES;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid price file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Invalid price file ${path}: expected an object of model prices`);
+  }
+
+  const prices: PriceTable = { ...DEFAULT_PRICES };
+  for (const [model, price] of Object.entries(parsed as Record<string, unknown>)) {
+    const valid = typeof price === 'object' && price !== null
+      && Object.values(price).every(value => typeof value === 'number' && value >= 0);
+    if (!valid) {
+      throw new Error(`Invalid price for ${model} in ${path}: expected { perMinute, input, output } in USD`);
+    }
+    prices[model] = price as ModelPrice;
+  }
+  return prices;
+}
+
+function chatStage(
+  stage: EstimateStage,
+  model: string,
+  calls: number,
+  inputTokens: number,
+  outputTokens: number
+): StageEstimate {
+  return {
+    stage,
+    model,
+    calls,
+    inputTokens: Math.ceil(inputTokens),
+    outputTokens: Math.ceil(outputTokens)
+  };
+}
+
+function priceStage(stage: StageEstimate, prices: PriceTable): StageEstimate {
+  const price = prices[stage.model];
+  if (stage.minutes !== undefined) {
+    return price?.perMinute !== undefined ? { ...stage, cost: stage.minutes * price.perMinute } : stage;
+  }
+  if (price?.input === undefined || price.output === undefined) {
+    return stage;
+  }
+  return {
+    ...stage,
+    cost: ((stage.inputTokens ?? 0) * price.input + (stage.outputTokens ?? 0) * price.output) / 1_000_000
+  };
+}
+
+function summarize(stages: StageEstimate[]): CostEstimate {
+  const unpriced = new Set<string>();
+  let cost = 0;
+  for (const stage of stages) {
+    if (stage.cost === undefined) {
+      unpriced.add(stage.model);
+    } else {
+      cost += stage.cost;
+    }
+  }
+  return { stages, cost, unpriced: [...unpriced] };
+}
+
+/**
+ * Estimate the requests and cost of one transcription
+ */
+export function estimateCost(options: EstimateOptions, prices: PriceTable = DEFAULT_PRICES): CostEstimate {
+  const { chatModel, contextTokens = DEFAULT_CONTEXT_TOKENS } = options;
+  const transcriptTokens = options.totalMinutes * TOKENS_PER_MINUTE;
+  const pendingTokens = options.pendingMinutes * TOKENS_PER_MINUTE;
+  const stages: StageEstimate[] = [];
+
+  if (options.pendingChunks > 0) {
+    stages.push(options.local
+      ? { stage: 'transcription', model: options.model, calls: options.pendingChunks, minutes: options.pendingMinutes, cost: 0 }
+      : { stage: 'transcription', model: options.model, calls: options.pendingChunks, minutes: options.pendingMinutes });
+
+    if (options.formatting && !options.local) {
+      stages.push(chatStage(
+        'formatting',
+        chatModel,
+        options.pendingChunks,
+        options.pendingChunks * PROMPT_OVERHEAD_TOKENS + pendingTokens,
+        pendingTokens
+      ));
+    }
+  }
+
+  if (options.summaryTemplates > 0) {
+    const templates = options.summaryTemplates;
+    const budget = contextTokens - SUMMARY_MAX_TOKENS - PROMPT_OVERHEAD_TOKENS;
+    if (transcriptTokens <= budget) {
+      stages.push(chatStage(
+        'summary',
+        chatModel,
+        templates,
+        templates * (transcriptTokens + PROMPT_OVERHEAD_TOKENS),
+        templates * SUMMARY_MAX_TOKENS
+      ));
+    } else {
+      // Map-reduce: every section, then the section summaries once per template
+      const sections = Math.ceil(transcriptTokens / (budget * 0.95));
+      const combined = sections * SECTION_MAX_TOKENS;
+      stages.push(chatStage(
+        'summary',
+        chatModel,
+        sections + templates,
+        transcriptTokens * 1.05 + sections * PROMPT_OVERHEAD_TOKENS + templates * (combined + PROMPT_OVERHEAD_TOKENS),
+        combined + templates * SUMMARY_MAX_TOKENS
+      ));
+    }
+  }
+
+  if (options.chapters) {
+    const timeline = Math.min(transcriptTokens * 1.2, contextTokens - CHAPTERS_MAX_TOKENS - PROMPT_OVERHEAD_TOKENS);
+    stages.push(chatStage('chapters', chatModel, 1, timeline + PROMPT_OVERHEAD_TOKENS, CHAPTERS_MAX_TOKENS));
+  }
+
+  if (options.translateText || options.translateEntries) {
+    // The translation of each request has to fit next to its input
+    const sectionTokens = (contextTokens - PROMPT_OVERHEAD_TOKENS) / 2;
+    let calls = 0;
+    let inputTokens = 0;
+    let outputTokens = 0;
+    if (options.translateText) {
+      const sections = Math.max(1, Math.ceil(transcriptTokens / sectionTokens));
+      calls += sections;
+      inputTokens += transcriptTokens + sections * PROMPT_OVERHEAD_TOKENS;
+      outputTokens += transcriptTokens;
+    }
+    if (options.translateEntries) {
+      const batches = Math.max(1, Math.ceil((options.totalMinutes * CUES_PER_MINUTE) / CUE_BATCH_SIZE));
+      calls += batches;
+      inputTokens += transcriptTokens * 1.1 + batches * PROMPT_OVERHEAD_TOKENS;
+      outputTokens += transcriptTokens;
+    }
+    stages.push(chatStage('translation', chatModel, calls, inputTokens, outputTokens));
+  }
+
+  return summarize(stages.map(stage => priceStage(stage, prices)));
+}
+
+/**
+ * Add up the estimates of several transcriptions, stage by stage and model by model
+ */
+export function combineEstimates(estimates: CostEstimate[]): CostEstimate {
+  const stages: StageEstimate[] = [];
+  for (const stage of estimates.flatMap(estimate => estimate.stages)) {
+    const existing = stages.find(other => other.stage === stage.stage && other.model === stage.model);
+    if (!existing) {
+      stages.push({ ...stage });
+      continue;
+    }
+    existing.calls += stage.calls;
+    const add = (a?: number, b?: number) => a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0);
+    existing.minutes = add(existing.minutes, stage.minutes);
+    existing.inputTokens = add(existing.inputTokens, stage.inputTokens);
+    existing.outputTokens = add(existing.outputTokens, stage.outputTokens);
+    existing.cost = existing.cost === undefined || stage.cost === undefined ? undefined : existing.cost + stage.cost;
+  }
+  return summarize(stages);
+}
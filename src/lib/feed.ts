@@ -0,0 +1,230 @@
+/**
+ * Podcast feed parsing (RSS 2.0, iTunes extensions and Atom) and episode selection
+ */
+
+import { readFile } from 'fs/promises';
+import { resolve } from 'path';
+import { logger } from '../utils/logger';
+import { parseXml, findChild, findChildren, childText, XmlNode } from './xml';
+import { fetchWithRetry, DownloadOptions } from './audio-downloader';
+
+export interface FeedEnclosure {
+  url: string;
+  type?: string;
+  length?: number;        // bytes, as declared by the feed
+}
+
+export interface FeedEpisode {
+  index: number;          // Position in the feed (1-based, newest first as published)
+  guid: string;
+  title: string;
+  pubDate?: Date;
+  duration?: number;      // seconds
+  enclosure?: FeedEnclosure;
+  link?: string;
+  description?: string;
+}
+
+export interface Feed {
+  title: string;
+  link?: string;
+  description?: string;
+  episodes: FeedEpisode[];
+}
+
+export interface EpisodeSelection {
+  indices?: number[];     // 1-based feed positions
+  guids?: string[];
+  since?: Date;
+  until?: Date;
+  latest?: number;
+}
+
+/**
+ * Parse an iTunes duration ("3600", "59:30", "1:02:03") into seconds
+ */
+export function parseFeedDuration(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const parts = value.trim().split(':').map(part => parseFloat(part));
+  if (parts.length === 0 || parts.length > 3 || parts.some(part => Number.isNaN(part))) {
+    return undefined;
+  }
+
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+function parseDate(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function parseLength(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const length = parseInt(value, 10);
+  return Number.isNaN(length) || length <= 0 ? undefined : length;
+}
+
+function parseRssItem(item: XmlNode, index: number): FeedEpisode {
+  const enclosureNode = findChild(item, 'enclosure');
+  const enclosure = enclosureNode?.attrs.url
+    ? {
+        url: enclosureNode.attrs.url,
+        type: enclosureNode.attrs.type,
+        length: parseLength(enclosureNode.attrs.length)
+      }
+    : undefined;
+
+  const title = childText(item, 'title', 'itunes:title') || `Episode ${index}`;
+
+  return {
+    index,
+    guid: childText(item, 'guid') || enclosure?.url || title,
+    title,
+    pubDate: parseDate(childText(item, 'pubDate', 'dc:date')),
+    duration: parseFeedDuration(childText(item, 'itunes:duration')),
+    enclosure,
+    link: childText(item, 'link'),
+    description: childText(item, 'itunes:summary', 'description', 'content:encoded')
+  };
+}
+
+function parseAtomEntry(entry: XmlNode, index: number): FeedEpisode {
+  const links = findChildren(entry, 'link');
+  const enclosureNode = links.find(link => link.attrs.rel === 'enclosure');
+  const alternateNode = links.find(link => !link.attrs.rel || link.attrs.rel === 'alternate');
+  const enclosure = enclosureNode?.attrs.href
+    ? {
+        url: enclosureNode.attrs.href,
+        type: enclosureNode.attrs.type,
+        length: parseLength(enclosureNode.attrs.length)
+      }
+    : undefined;
+
+  const title = childText(entry, 'title') || `Episode ${index}`;
+
+  return {
+    index,
+    guid: childText(entry, 'id') || enclosure?.url || title,
+    title,
+    pubDate: parseDate(childText(entry, 'published', 'updated')),
+    duration: parseFeedDuration(childText(entry, 'itunes:duration')),
+    enclosure,
+    link: alternateNode?.attrs.href,
+    description: childText(entry, 'summary', 'content')
+  };
+}
+
+/**
+ * Parse RSS 2.0 (including iTunes tags) or Atom feed XML
+ */
+export function parseFeed(xml: string): Feed {
+  const root = parseXml(xml);
+
+  if (root.name === 'rss' || root.name === 'rdf:RDF') {
+    const channel = findChild(root, 'channel');
+    if (!channel) {
+      throw new Error('Invalid RSS feed: missing <channel> element');
+    }
+    // RSS 1.0 keeps items next to the channel, RSS 2.0 inside it
+    const items = [...findChildren(channel, 'item'), ...findChildren(root, 'item')];
+
+    return {
+      title: childText(channel, 'title') || 'Untitled feed',
+      link: childText(channel, 'link'),
+      description: childText(channel, 'description', 'itunes:summary'),
+      episodes: items.map((item, i) => parseRssItem(item, i + 1))
+    };
+  }
+
+  if (root.name === 'feed') {
+    const alternate = findChildren(root, 'link').find(link => !link.attrs.rel || link.attrs.rel === 'alternate');
+
+    return {
+      title: childText(root, 'title') || 'Untitled feed',
+      link: alternate?.attrs.href,
+      description: childText(root, 'subtitle'),
+      episodes: findChildren(root, 'entry').map((entry, i) => parseAtomEntry(entry, i + 1))
+    };
+  }
+
+  throw new Error(`Unsupported feed format: root element <${root.name}>`);
+}
+
+/**
+ * Load and parse a feed from an http(s) URL or a local XML file
+ * `download` carries headers (private feeds), timeouts and retries for URLs
+ */
+export async function loadFeed(source: string, download: DownloadOptions = {}): Promise<Feed> {
+  let xml: string;
+
+  if (source.startsWith('http://') || source.startsWith('https://')) {
+    logger.info('[Feed] Fetching feed from URL:', source);
+    const response = await fetchWithRetry(source, download).catch(error => {
+      throw new Error(`Failed to fetch feed: ${error instanceof Error ? error.message : error}`);
+    });
+    xml = await response.text();
+  } else {
+    const filePath = resolve(source);
+    logger.info('[Feed] Reading feed file:', filePath);
+    xml = await readFile(filePath, 'utf-8');
+  }
+
+  const feed = parseFeed(xml);
+  logger.info('[Feed] Parsed feed:', { title: feed.title, episodes: feed.episodes.length });
+  return feed;
+}
+
+/**
+ * Parse an index list such as "1,3,5-7" into 1-based indices
+ */
+export function parseIndexList(value: string): number[] {
+  const indices: number[] = [];
+
+  for (const part of value.split(',').map(p => p.trim()).filter(Boolean)) {
+    const range = part.match(/^(\d+)-(\d+)$/);
+    if (range) {
+      const from = parseInt(range[1], 10);
+      const to = parseInt(range[2], 10);
+      if (from > to) {
+        throw new Error(`Invalid episode range: ${part}`);
+      }
+      for (let i = from; i <= to; i++) {
+        indices.push(i);
+      }
+    } else if (/^\d+$/.test(part)) {
+      indices.push(parseInt(part, 10));
+    } else {
+      throw new Error(`Invalid episode index: ${part}`);
+    }
+  }
+
+  return indices;
+}
+
+/**
+ * Select episodes from a feed. All given criteria must match;
+ * `latest` is applied last, on publication date (feed order when dates are missing)
+ */
+export function selectEpisodes(episodes: FeedEpisode[], selection: EpisodeSelection): FeedEpisode[] {
+  let selected = episodes.filter(episode => {
+    if (selection.indices && !selection.indices.includes(episode.index)) return false;
+    if (selection.guids && !selection.guids.includes(episode.guid)) return false;
+    if (selection.since && (!episode.pubDate || episode.pubDate < selection.since)) return false;
+    if (selection.until && (!episode.pubDate || episode.pubDate > selection.until)) return false;
+    return true;
+  });
+
+  if (selection.latest !== undefined) {
+    selected = [...selected]
+      .sort((a, b) => {
+        const timeA = a.pubDate?.getTime() ?? -Infinity;
+        const timeB = b.pubDate?.getTime() ?? -Infinity;
+        return timeB - timeA || a.index - b.index;
+      })
+      .slice(0, selection.latest);
+  }
+
+  return selected;
+}
@@ -0,0 +1,62 @@
+/**
+ * ffmpeg and ffprobe invocations
+ *
+ * Run without a shell, so file names need no quoting, and asynchronously, so an
+ * aborted signal kills the running process instead of waiting for it.
+ */
+
+import { execFile } from 'child_process';
+
+export interface ExecOptions {
+  signal?: AbortSignal;   // Kills the process
+  maxBuffer?: number;     // bytes of stdout or stderr kept (default 16 MB)
+}
+
+export interface ExecOutput {
+  stdout: string;
+  stderr: string;
+}
+
+const DEFAULT_MAX_BUFFER = 16 * 1024 * 1024;
+
+function run(command: string, args: string[], options: ExecOptions): Promise<ExecOutput> {
+  const { signal, maxBuffer = DEFAULT_MAX_BUFFER } = options;
+  return new Promise((resolvePromise, reject) => {
+    execFile(command, args, { signal, maxBuffer, encoding: 'utf-8' }, (error, stdout, stderr) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+      } else if ((error as NodeJS.ErrnoException | null)?.code === 'ENOENT') {
+        reject(new Error(`${command} not found, install ffmpeg and make sure it is on the PATH`));
+      } else if (error) {
+        reject(error);
+      } else {
+        resolvePromise({ stdout, stderr });
+      }
+    });
+  });
+}
+
+export function ffmpeg(args: string[], options: ExecOptions = {}): Promise<ExecOutput> {
+  return run('ffmpeg', args, options);
+}
+
+export function ffprobe(args: string[], options: ExecOptions = {}): Promise<ExecOutput> {
+  return run('ffprobe', args, options);
+}
+
+// Versions are looked up once per process
+const versions = new Map<string, Promise<string | undefined>>();
+
+/**
+ * Version reported by `ffmpeg -version` or `ffprobe -version`, undefined when not installed
+ */
+export function toolVersion(command: 'ffmpeg' | 'ffprobe'): Promise<string | undefined> {
+  let version = versions.get(command);
+  if (!version) {
+    version = run(command, ['-version'], {})
+      .then(({ stdout }) => stdout.match(/version (\S+)/)?.[1])
+      .catch(() => undefined);
+    versions.set(command, version);
+  }
+  return version;
+}
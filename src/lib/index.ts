@@ -1,12 +1,221 @@
+export {
+  Transcriber,
+  TranscriptionJob,
+  type TranscriberOptions,
+  type TranscribeJobOptions,
+  type TranscriberInput,
+  type ChunkOrder
+} from './transcriber';
 export { createOpenAIClient, type OpenAIConfig } from './openai';
 export {
   transcribeAudio,
   transcribeAudioFile,
+  transcribeAudioUrl,
+  planTranscription,
+  type TranscriptionPlan,
   type TranscriptionProgress,
   type TranscriptionOptions,
   type TranscriptionResult
 } from './transcription';
-export { generateSummary, type SummaryOptions } from './summary';
-export { downloadAudio, type DownloadResult } from './audio-downloader';
-export { formatSrtTime, convertSegmentsToSrtEntries, entriesToSrtString } from './srt';
-export type { WhisperSegment, WhisperVerboseResponse, SrtEntry } from './types';
+export {
+  generateSummary,
+  summarizeTranscript,
+  splitIntoSections,
+  estimateTokens,
+  DEFAULT_CONTEXT_TOKENS,
+  type SummaryOptions,
+  type SummaryResult,
+  type SectionSummary,
+  type TemplateSummary
+} from './summary';
+export {
+  translateText,
+  translateEntries,
+  bilingualEntries,
+  type TranslateOptions
+} from './translate';
+export { languageName } from './languages';
+export {
+  loadSummaryTemplate,
+  renderTemplate,
+  getTemplateDir,
+  BUILTIN_TEMPLATES,
+  type SummaryTemplate,
+  type TemplateVariables
+} from './summary-templates';
+export {
+  detectAudioFormat,
+  extensionFromHints,
+  type AudioFormat,
+  type FormatHints
+} from './audio';
+export {
+  downloadAudio,
+  downloadToFile,
+  fetchWithRetry,
+  parseHeaders,
+  type DownloadResult,
+  type DownloadFileResult,
+  type DownloadOptions
+} from './audio-downloader';
+export {
+  formatSrtTime,
+  convertSegmentsToSrtEntries,
+  entriesToSrtString,
+  type SegmentConversionOptions
+} from './srt';
+export type {
+  WhisperSegment,
+  WhisperVerboseResponse,
+  SrtEntry,
+  ChunkBoundary,
+  ChunkResult,
+  ChunkFailure,
+  TranscribedChunk,
+  AudioInfo,
+  ChunkReport
+} from './types';
+export { withRetry, isRetryableError, retryAfterMs, type RequestPolicy } from './retry';
+export { UsageTracker, type UsageSummary, type TokenUsage } from './usage';
+export { getVersion } from './version';
+export {
+  parseFeed,
+  loadFeed,
+  selectEpisodes,
+  parseIndexList,
+  parseFeedDuration,
+  type Feed,
+  type FeedEpisode,
+  type FeedEnclosure,
+  type EpisodeSelection
+} from './feed';
+export {
+  ChunkCache,
+  getCacheDir,
+  hashFile,
+  listCacheEntries,
+  clearCache,
+  type CacheMode,
+  type CacheEntryInfo
+} from './cache';
+export {
+  estimateCost,
+  combineEstimates,
+  loadPrices,
+  getPricesPath,
+  DEFAULT_PRICES,
+  type ModelPrice,
+  type PriceTable,
+  type CostEstimate,
+  type StageEstimate,
+  type EstimateOptions
+} from './estimate';
+export {
+  transcodeChunk,
+  encodeArgs,
+  audioFilters,
+  describePreprocess,
+  fitChunkDuration,
+  DEFAULT_UPLOAD_LIMIT,
+  PREPROCESS_CODECS,
+  type PreprocessCodec,
+  type PreprocessOptions
+} from './preprocess';
+export {
+  getTempDir,
+  listTempSessions,
+  removeOrphanedSession,
+  cleanupTempDirs,
+  type TempSession
+} from './temp';
+export {
+  planChunks,
+  planFixedChunks,
+  planSilenceChunks,
+  detectSilences,
+  parseSilenceOutput,
+  splitChunk,
+  applyOverlap,
+  type SplitStrategy,
+  type SilenceInterval
+} from './splitter';
+export {
+  mergeChunkTexts,
+  mergeChunkEntries,
+  mergeOverlappingText,
+  mergeOverlappingEntries,
+  mergeVerboseResponses,
+  textSimilarity,
+  type MergeChunk,
+  type VerboseChunk
+} from './merge';
+export {
+  SUBTITLE_WRITERS,
+  SUBTITLE_FORMATS,
+  isSubtitleFormat,
+  writeSubtitles,
+  formatVttTime,
+  escapeVttText,
+  entriesToVttString,
+  formatTtmlTime,
+  entriesToTtmlString,
+  entriesToSegments,
+  parseSrt,
+  parseVtt,
+  parseSegmentsJson,
+  parseSubtitles,
+  parseTimestamp,
+  detectSubtitleFormat,
+  transformTimes,
+  renumberEntries,
+  type SubtitleInputFormat,
+  type TimeTransform,
+  type SubtitleFormat,
+  type SubtitleWriter,
+  type SubtitleWriterOptions,
+  type SegmentJson
+} from './subtitles';
+export {
+  layoutEntries,
+  wrapLines,
+  displayWidth,
+  resolveLayoutOptions,
+  LAYOUT_PRESETS,
+  type LayoutOptions
+} from './subtitles/layout';
+export {
+  createTranscriptionProvider,
+  OpenAIProvider,
+  WhisperCppProvider,
+  PROVIDER_NAMES,
+  type ProviderConfig,
+  type ProviderName,
+  type ProviderRequest,
+  type TranscriptionProvider
+} from './providers';
+export {
+  resolveSettings,
+  loadConfig,
+  saveConfig,
+  getConfigPath,
+  DEFAULT_SETTINGS,
+  SETTING_KEYS,
+  type Settings,
+  type SettingKey,
+  type SettingSource,
+  type ConfigFile,
+  type ResolvedSettings
+} from './config';
+export {
+  generateChapters,
+  normalizeChapters,
+  writeChapters,
+  chaptersToPodcastJson,
+  chaptersToYouTube,
+  chaptersToMarkdown,
+  chaptersToFfmetadata,
+  CHAPTER_FORMATS,
+  type Chapter,
+  type ChapterFormat,
+  type ChapterOptions
+} from './chapters';
@@ -0,0 +1,38 @@
+/**
+ * Language names for prompts, from ISO 639-1 codes or BCP 47 tags
+ */
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  ar: 'Arabic',
+  de: 'German',
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  hi: 'Hindi',
+  id: 'Indonesian',
+  it: 'Italian',
+  ja: 'Japanese',
+  ko: 'Korean',
+  nl: 'Dutch',
+  pl: 'Polish',
+  pt: 'Portuguese',
+  ru: 'Russian',
+  sv: 'Swedish',
+  th: 'Thai',
+  tr: 'Turkish',
+  uk: 'Ukrainian',
+  vi: 'Vietnamese',
+  zh: 'Chinese (Simplified)',
+  'zh-cn': 'Chinese (Simplified)',
+  'zh-hans': 'Chinese (Simplified)',
+  'zh-tw': 'Chinese (Traditional)',
+  'zh-hant': 'Chinese (Traditional)'
+};
+
+/**
+ * Name of a language for use in a prompt. Unknown codes and names pass through unchanged.
+ */
+export function languageName(language: string): string {
+  const key = language.trim().toLowerCase().replace(/_/g, '-');
+  return LANGUAGE_NAMES[key] ?? LANGUAGE_NAMES[key.split('-')[0]] ?? language.trim();
+}
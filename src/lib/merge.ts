@@ -0,0 +1,217 @@
+/**
+ * Merge transcripts of overlapping chunks
+ *
+ * With overlap, consecutive chunks both contain the audio around their boundary.
+ * Text is merged by aligning the longest common token run between the end of one
+ * chunk and the start of the next; subtitle entries are merged by timestamp first
+ * and then de-duplicated by text similarity.
+ */
+
+import { SrtEntry, WhisperVerboseResponse } from './types';
+import { convertSegmentsToSrtEntries } from './srt';
+
+export interface MergeChunk {
+  offset: number;         // Real start of the chunk in the source audio (seconds)
+  end: number;            // End of the chunk in the source audio (seconds)
+  text: string;
+  srtEntries?: SrtEntry[];
+}
+
+export interface VerboseChunk {
+  offset: number;
+  end: number;
+  response: WhisperVerboseResponse;
+}
+
+interface Token {
+  norm: string;
+  start: number;          // Index in the original text
+  end: number;
+}
+
+// How many tokens at each side of a boundary are searched for the overlap:
+// a generous speaking rate for the overlap duration plus some slack
+const TOKENS_PER_SECOND = 6;
+const ALIGN_SLACK = 8;
+
+// Minimum run of matching tokens to accept an alignment
+const MIN_ALIGN_TOKENS = 3;
+
+// Minimum similarity for two subtitle texts to count as the same speech
+const DUPLICATE_SIMILARITY = 0.6;
+
+// An entry ending this close to the end of its chunk is probably cut off
+const TRUNCATION_MARGIN = 0.25;
+
+// CJK characters are tokens on their own, everything else splits on whitespace
+const TOKEN_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]|[^\s\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]+/g;
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let match: RegExpExecArray | null;
+  TOKEN_PATTERN.lastIndex = 0;
+  while ((match = TOKEN_PATTERN.exec(text)) !== null) {
+    const norm = match[0].toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+    if (norm) {
+      tokens.push({ norm, start: match.index, end: match.index + match[0].length });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Find the longest run of equal tokens between two token lists
+ * Returns the end positions (exclusive) of the run in both lists
+ */
+function longestCommonRun(a: Token[], b: Token[]): { length: number; endA: number; endB: number } {
+  let best = { length: 0, endA: 0, endB: 0 };
+  let previous = new Array<number>(b.length + 1).fill(0);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = new Array<number>(b.length + 1).fill(0);
+    for (let j = 1; j <= b.length; j++) {
+      if (a[i - 1].norm === b[j - 1].norm) {
+        current[j] = previous[j - 1] + 1;
+        if (current[j] > best.length) {
+          best = { length: current[j], endA: i, endB: j };
+        }
+      }
+    }
+    previous = current;
+  }
+
+  return best;
+}
+
+/**
+ * Join two overlapping transcripts, keeping one copy of the repeated speech
+ * Falls back to a plain join when no reliable alignment is found
+ */
+export function mergeOverlappingText(previous: string, next: string, overlap: number): string {
+  const window = Math.ceil(overlap * TOKENS_PER_SECOND) + ALIGN_SLACK;
+  const prevTail = tokenize(previous).slice(-window);
+  const nextHead = tokenize(next).slice(0, window);
+
+  const run = longestCommonRun(prevTail, nextHead);
+  if (run.length < MIN_ALIGN_TOKENS) {
+    return [previous.trim(), next.trim()].filter(Boolean).join(' ');
+  }
+
+  // Keep the previous chunk up to the end of the shared run (dropping a possibly
+  // cut-off word after it) and continue the next chunk right after the run
+  const cutPrev = prevTail[run.endA - 1].end;
+  const cutNext = nextHead[run.endB - 1].end;
+  return (previous.slice(0, cutPrev) + next.slice(cutNext)).trim();
+}
+
+/**
+ * Dice similarity of the token sets of two texts (0..1)
+ */
+export function textSimilarity(a: string, b: string): number {
+  const tokensA = tokenize(a).map(t => t.norm);
+  const tokensB = tokenize(b).map(t => t.norm);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const remaining = new Map<string, number>();
+  for (const token of tokensB) {
+    remaining.set(token, (remaining.get(token) ?? 0) + 1);
+  }
+  let shared = 0;
+  for (const token of tokensA) {
+    const count = remaining.get(token) ?? 0;
+    if (count > 0) {
+      shared++;
+      remaining.set(token, count - 1);
+    }
+  }
+  return (2 * shared) / (tokensA.length + tokensB.length);
+}
+
+/**
+ * Merge the subtitle entries of two consecutive chunks
+ * Entries of the previous chunk are kept up to the middle of the overlap (minus cut-off ones),
+ * entries of the next chunk from where the kept ones end, and any remaining
+ * entry that repeats the speech of the previous one is dropped
+ */
+export function mergeOverlappingEntries(
+  previous: SrtEntry[],
+  next: SrtEntry[],
+  nextOffset: number,
+  previousEnd: number
+): SrtEntry[] {
+  const overlap = previousEnd - nextOffset;
+  if (overlap <= 0 || previous.length === 0) {
+    return [...previous, ...next];
+  }
+
+  // Entries that start inside the overlap but run into the chunk end are cut off,
+  // the next chunk has the complete version of them
+  const cut = nextOffset + overlap / 2;
+  const keptPrevious = previous.filter(entry =>
+    entry.startTime < cut &&
+    !(entry.startTime >= nextOffset && entry.endTime >= previousEnd - TRUNCATION_MARGIN)
+  );
+  const boundary = keptPrevious.reduce((max, entry) => Math.max(max, entry.endTime), nextOffset);
+  const keptNext = next.filter(entry => (entry.startTime + entry.endTime) / 2 > boundary);
+
+  const tail = keptPrevious.slice(-2);
+  while (
+    keptNext.length > 0 &&
+    keptNext[0].startTime < previousEnd &&
+    tail.some(entry => textSimilarity(entry.text, keptNext[0].text) >= DUPLICATE_SIMILARITY)
+  ) {
+    keptNext.shift();
+  }
+
+  // Never let the next chunk start before the kept entries end
+  if (keptNext.length > 0 && keptNext[0].startTime < boundary) {
+    keptNext[0] = { ...keptNext[0], startTime: boundary };
+  }
+
+  return [...keptPrevious, ...keptNext];
+}
+
+/**
+ * Merge the transcripts of all chunks (sorted by position) into one text
+ */
+export function mergeChunkTexts(chunks: MergeChunk[]): string {
+  let merged = '';
+  for (let i = 0; i < chunks.length; i++) {
+    const overlap = i > 0 ? chunks[i - 1].end - chunks[i].offset : 0;
+    merged = overlap > 0
+      ? mergeOverlappingText(merged, chunks[i].text, overlap)
+      : [merged, chunks[i].text].filter(Boolean).join(' ');
+  }
+  return merged;
+}
+
+/**
+ * Merge the subtitle entries of all chunks (sorted by position), renumbered from 1
+ */
+export function mergeChunkEntries(chunks: MergeChunk[]): SrtEntry[] {
+  let merged: SrtEntry[] = [];
+  for (let i = 0; i < chunks.length; i++) {
+    const entries = chunks[i].srtEntries ?? [];
+    merged = i === 0
+      ? [...entries]
+      : mergeOverlappingEntries(merged, entries, chunks[i].offset, chunks[i - 1].end);
+  }
+  return merged.map((entry, i) => ({ ...entry, index: i + 1 }));
+}
+
+/**
+ * Merge raw verbose_json responses of consecutive chunks into text and subtitle entries
+ */
+export function mergeVerboseResponses(chunks: VerboseChunk[]): { text: string; entries: SrtEntry[] } {
+  const mergeChunks: MergeChunk[] = chunks.map(chunk => ({
+    offset: chunk.offset,
+    end: chunk.end,
+    text: chunk.response.text,
+    srtEntries: convertSegmentsToSrtEntries(chunk.response.segments, { offset: chunk.offset })
+  }));
+
+  return {
+    text: mergeChunkTexts(mergeChunks),
+    entries: mergeChunkEntries(mergeChunks)
+  };
+}
@@ -5,9 +5,14 @@ export interface OpenAIConfig {
   baseURL?: string;
 }
 
+// Chat model used for transcript formatting and summaries unless configured otherwise
+export const DEFAULT_CHAT_MODEL = 'gpt-3.5-turbo';
+
+// Retries and timeouts are applied per call by withRetry (see retry.ts), not by the SDK
 export function createOpenAIClient(config?: OpenAIConfig): OpenAI {
   return new OpenAI({
     apiKey: config?.apiKey || process.env.API_KEY,
-    baseURL: config?.baseURL || process.env.BASE_URL
+    baseURL: config?.baseURL || process.env.BASE_URL,
+    maxRetries: 0
   });
 }
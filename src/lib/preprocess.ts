@@ -0,0 +1,157 @@
+/**
+ * Chunk preprocessing and upload limits
+ *
+ * Chunks are cut with stream copy by default, so they keep the bitrate of the source.
+ * Preprocessing transcodes each chunk to compact mono speech audio instead, optionally
+ * with loudness normalization and noise filters. Either way, the chunk duration is
+ * shortened when a chunk would be larger than the provider accepts.
+ */
+
+import { ffmpeg } from './ffmpeg';
+import { ChunkBoundary } from './types';
+
+export type PreprocessCodec = 'opus' | 'mp3';
+
+export const PREPROCESS_CODECS: PreprocessCodec[] = ['opus', 'mp3'];
+
+export interface PreprocessOptions {
+  codec: PreprocessCodec;
+  sampleRate?: number;    // Hz (default 16000)
+  bitrate?: number;       // kbit/s (default 24 for opus, 32 for mp3)
+  normalize?: boolean;    // EBU R128 loudness normalization
+  denoise?: boolean;      // High-pass filter and FFT noise reduction
+}
+
+// Largest file the OpenAI transcription API accepts
+export const DEFAULT_UPLOAD_LIMIT = 25 * 1024 * 1024;
+
+// Chunks are planned this far below the limit, as bitrates vary within a file
+const UPLOAD_MARGIN = 0.9;
+
+// Shortest chunk worth transcribing after shrinking for the upload limit
+const MIN_CHUNK_SECONDS = 10;
+
+const DEFAULT_SAMPLE_RATE = 16000;
+
+const CODECS: Record<PreprocessCodec, { encoder: string; extension: string; bitrate: number }> = {
+  opus: { encoder: 'libopus', extension: 'ogg', bitrate: 24 },
+  mp3: { encoder: 'libmp3lame', extension: 'mp3', bitrate: 32 }
+};
+
+export function isPreprocessCodec(codec: string): codec is PreprocessCodec {
+  return PREPROCESS_CODECS.includes(codec as PreprocessCodec);
+}
+
+function resolveOptions(options: PreprocessOptions): Required<PreprocessOptions> {
+  if (!isPreprocessCodec(options.codec)) {
+    throw new Error(`Unknown preprocess codec: ${options.codec} (expected ${PREPROCESS_CODECS.join(', ')})`);
+  }
+  const resolved = {
+    codec: options.codec,
+    sampleRate: options.sampleRate ?? DEFAULT_SAMPLE_RATE,
+    bitrate: options.bitrate ?? CODECS[options.codec].bitrate,
+    normalize: options.normalize ?? false,
+    denoise: options.denoise ?? false
+  };
+  if (!Number.isInteger(resolved.sampleRate) || resolved.sampleRate <= 0) {
+    throw new Error(`Sample rate must be a positive integer: ${resolved.sampleRate}`);
+  }
+  if (!(resolved.bitrate > 0)) {
+    throw new Error(`Bitrate must be positive: ${resolved.bitrate}`);
+  }
+  return resolved;
+}
+
+// ffmpeg filter chain: noise filters first, so normalization does not raise the noise
+export function audioFilters(options: PreprocessOptions): string[] {
+  const filters: string[] = [];
+  if (options.denoise) {
+    filters.push('highpass=f=80', 'afftdn');
+  }
+  if (options.normalize) {
+    filters.push('loudnorm=I=-16:TP=-1.5:LRA=11');
+  }
+  return filters;
+}
+
+// ffmpeg output arguments that encode a chunk
+export function encodeArgs(options: PreprocessOptions): string[] {
+  const { codec, sampleRate, bitrate } = resolveOptions(options);
+  const filters = audioFilters(options);
+  return [
+    '-ac', '1',
+    '-ar', String(sampleRate),
+    ...(filters.length > 0 ? ['-af', filters.join(',')] : []),
+    '-c:a', CODECS[codec].encoder,
+    '-b:a', `${bitrate}k`
+  ];
+}
+
+export function preprocessExtension(options: PreprocessOptions): string {
+  return CODECS[resolveOptions(options).codec].extension;
+}
+
+// Bytes per second of preprocessed audio, container overhead aside
+export function preprocessByteRate(options: PreprocessOptions): number {
+  return (resolveOptions(options).bitrate * 1000) / 8;
+}
+
+/**
+ * Settings in one line, for the log and the cache key, e.g. "opus mono 16 kHz 24 kbit/s, denoise"
+ */
+export function describePreprocess(options: PreprocessOptions): string {
+  const { codec, sampleRate, bitrate, normalize, denoise } = resolveOptions(options);
+  return [
+    `${codec} mono ${sampleRate / 1000} kHz ${bitrate} kbit/s`,
+    ...(denoise ? ['denoise'] : []),
+    ...(normalize ? ['loudnorm'] : [])
+  ].join(', ');
+}
+
+/**
+ * Longest chunk duration, up to `chunkDuration`, whose chunks stay under the upload
+ * limit at `bytesPerSecond`
+ */
+export function fitChunkDuration(chunkDuration: number, bytesPerSecond: number, maxBytes: number, overlap = 0): number {
+  if (!Number.isFinite(maxBytes) || !(bytesPerSecond > 0)) {
+    return chunkDuration;
+  }
+  // Overlapping chunks also carry the audio they share with the previous one
+  const fitting = Math.floor((maxBytes * UPLOAD_MARGIN) / bytesPerSecond) - overlap;
+  if (fitting >= chunkDuration) {
+    return chunkDuration;
+  }
+  if (fitting < Math.max(MIN_CHUNK_SECONDS, overlap + 1)) {
+    throw new Error(
+      `Chunks would have to be shorter than ${MIN_CHUNK_SECONDS} seconds to stay under the upload limit, ` +
+      'transcode them with --preprocess or raise --max-upload'
+    );
+  }
+  return fitting;
+}
+
+/**
+ * Chunk duration to cut again with after a chunk of `plannedDuration` (plus overlap) came
+ * out at `largestBytes`, over the upload limit. Always at least a second shorter.
+ */
+export function shrinkChunkDuration(plannedDuration: number, largestBytes: number, maxBytes: number, overlap = 0): number {
+  const shortened = fitChunkDuration(plannedDuration, largestBytes / (plannedDuration + overlap), maxBytes, overlap);
+  return Math.min(shortened, plannedDuration - 1);
+}
+
+/**
+ * Cut one chunk and transcode it. Decoding seeks exactly, so the chunk starts where planned.
+ */
+export async function transcodeChunk(
+  inputPath: string,
+  chunk: ChunkBoundary,
+  outputPath: string,
+  options: PreprocessOptions,
+  signal?: AbortSignal
+): Promise<number> {
+  await ffmpeg(
+    ['-v', 'error', '-ss', String(chunk.start), '-i', inputPath, '-t', String(chunk.duration), '-vn', ...encodeArgs(options), outputPath, '-y'],
+    { signal }
+  );
+  return chunk.start;
+}
@@ -0,0 +1,61 @@
+/**
+ * Transcription backends
+ *
+ * openai:            OpenAI API (API_KEY / BASE_URL), default model whisper-1
+ * openai-compatible: any server with an OpenAI-style /audio/transcriptions endpoint,
+ *                    model required (TRANSCRIBE_BASE_URL / TRANSCRIBE_API_KEY or --endpoint)
+ * whisper-cpp:       local whisper.cpp CLI, model is the path to a ggml model file
+ */
+
+import { OpenAIConfig } from '../openai';
+import { OpenAIProvider, DEFAULT_OPENAI_MODEL } from './openai';
+import { WhisperCppProvider } from './whisper-cpp';
+import { ProviderName, TranscriptionProvider } from './types';
+
+export const PROVIDER_NAMES: ProviderName[] = ['openai', 'openai-compatible', 'whisper-cpp'];
+
+export interface ProviderConfig {
+  provider?: ProviderName;
+  model?: string;
+  endpoint?: string;      // openai-compatible base URL
+  apiKey?: string;        // openai-compatible API key
+  whisperBin?: string;    // whisper-cpp binary
+  openaiConfig?: OpenAIConfig;
+}
+
+export function createTranscriptionProvider(config: ProviderConfig = {}): TranscriptionProvider {
+  const { provider = 'openai', model } = config;
+
+  switch (provider) {
+    case 'openai':
+      return new OpenAIProvider('openai', model || DEFAULT_OPENAI_MODEL, config.openaiConfig);
+
+    case 'openai-compatible': {
+      if (!model) {
+        throw new Error('The openai-compatible provider needs a model name (--model)');
+      }
+      const baseURL = config.endpoint || process.env.TRANSCRIBE_BASE_URL || config.openaiConfig?.baseURL || process.env.BASE_URL;
+      if (!baseURL) {
+        throw new Error('The openai-compatible provider needs an endpoint (--endpoint or TRANSCRIBE_BASE_URL)');
+      }
+      // Self-hosted servers often ignore the key, but the SDK requires one
+      const apiKey = config.apiKey || process.env.TRANSCRIBE_API_KEY || config.openaiConfig?.apiKey || process.env.API_KEY || 'none';
+      return new OpenAIProvider('openai-compatible', model, { baseURL, apiKey });
+    }
+
+    case 'whisper-cpp': {
+      const modelPath = model || process.env.WHISPER_CPP_MODEL;
+      if (!modelPath) {
+        throw new Error('The whisper-cpp provider needs a ggml model file (--model or WHISPER_CPP_MODEL)');
+      }
+      return new WhisperCppProvider(modelPath, config.whisperBin || process.env.WHISPER_CPP_BIN);
+    }
+
+    default:
+      throw new Error(`Unknown provider: ${provider} (expected ${PROVIDER_NAMES.join(', ')})`);
+  }
+}
+
+export { OpenAIProvider, DEFAULT_OPENAI_MODEL } from './openai';
+export { WhisperCppProvider, DEFAULT_WHISPER_CPP_BIN } from './whisper-cpp';
+export type { ProviderName, ProviderRequest, TranscriptionProvider } from './types';
@@ -0,0 +1,71 @@
+/**
+ * OpenAI audio transcription API, and any server implementing the same endpoint
+ * (faster-whisper-server, LocalAI, vLLM, ...)
+ */
+
+import { readFileSync } from 'fs';
+import { basename } from 'path';
+import OpenAI from 'openai';
+import { createOpenAIClient, OpenAIConfig } from '../openai';
+import { WhisperVerboseResponse } from '../types';
+import { ProviderRequest, TranscriptionProvider } from './types';
+
+export const DEFAULT_OPENAI_MODEL = 'whisper-1';
+
+// The gpt-4o transcription models only answer with json or text, without segments
+function supportsVerboseJson(model: string): boolean {
+  return !/^gpt-4o/.test(model);
+}
+
+export class OpenAIProvider implements TranscriptionProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly local = false;
+  readonly segments: boolean;
+  private config?: OpenAIConfig;
+  private openai?: OpenAI;
+
+  constructor(name: string, model: string, config?: OpenAIConfig) {
+    this.name = name;
+    this.model = model;
+    this.segments = supportsVerboseJson(model);
+    this.config = config;
+  }
+
+  // Created on the first request, so a run can be planned without an API key (--dry-run)
+  private get client(): OpenAI {
+    this.openai ??= createOpenAIClient(this.config);
+    return this.openai;
+  }
+
+  private toFile(filePath: string): File {
+    return new File([readFileSync(filePath)], basename(filePath));
+  }
+
+  async transcribeText(request: ProviderRequest): Promise<string> {
+    const response = await this.client.audio.transcriptions.create({
+      model: this.model,
+      file: this.toFile(request.filePath),
+      response_format: 'text',
+      language: request.language,
+      prompt: request.prompt
+    }, { signal: request.signal });
+
+    return typeof response === 'string' ? response : JSON.stringify(response);
+  }
+
+  async transcribeVerbose(request: ProviderRequest): Promise<WhisperVerboseResponse> {
+    if (!supportsVerboseJson(this.model)) {
+      throw new Error(`Model ${this.model} does not return segment timestamps, use a Whisper model for subtitle output`);
+    }
+
+    return await this.client.audio.transcriptions.create({
+      model: this.model,
+      file: this.toFile(request.filePath),
+      response_format: 'verbose_json',
+      language: request.language,
+      prompt: request.prompt,
+      timestamp_granularities: request.wordTimestamps ? ['word', 'segment'] : undefined
+    }, { signal: request.signal }) as unknown as WhisperVerboseResponse;
+  }
+}
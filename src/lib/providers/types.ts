@@ -0,0 +1,25 @@
+import { WhisperVerboseResponse } from '../types';
+
+export type ProviderName = 'openai' | 'openai-compatible' | 'whisper-cpp';
+
+export interface ProviderRequest {
+  filePath: string;       // Chunk audio file
+  language?: string;      // undefined lets the model detect the language
+  prompt?: string;
+  wordTimestamps?: boolean;   // Also return word timing (verbose requests only)
+  signal?: AbortSignal;   // Aborts the request on timeout or cancellation
+}
+
+export interface TranscriptionProvider {
+  readonly name: ProviderName | string;
+  readonly model: string;
+  readonly local: boolean;            // Audio and text never leave this machine
+  readonly maxConcurrency?: number;   // Overrides the default concurrency when set
+  readonly segments?: boolean;        // false when transcribeVerbose is not supported
+
+  // Plain transcript text
+  transcribeText(request: ProviderRequest): Promise<string>;
+
+  // Transcript with segment timestamps, in Whisper verbose_json shape
+  transcribeVerbose(request: ProviderRequest): Promise<WhisperVerboseResponse>;
+}
@@ -0,0 +1,105 @@
+/**
+ * Local whisper.cpp CLI, invoked once per chunk
+ * Chunks are converted to the 16 kHz mono WAV whisper.cpp expects, and the
+ * JSON output (-oj) is mapped to the Whisper verbose_json shape.
+ */
+
+import { execFile } from 'child_process';
+import { readFile, rm } from 'fs/promises';
+import { promisify } from 'util';
+import { logger } from '../../utils/logger';
+import { ffmpeg } from '../ffmpeg';
+import { WhisperSegment, WhisperVerboseResponse } from '../types';
+import { ProviderRequest, TranscriptionProvider } from './types';
+
+const execFileAsync = promisify(execFile);
+
+export const DEFAULT_WHISPER_CPP_BIN = 'whisper-cli';
+
+interface WhisperCppOutput {
+  result?: { language?: string };
+  transcription: {
+    offsets: { from: number; to: number };   // milliseconds
+    text: string;
+  }[];
+}
+
+export class WhisperCppProvider implements TranscriptionProvider {
+  readonly name = 'whisper-cpp';
+  readonly model: string;
+  readonly local = true;
+  // whisper.cpp already uses every core for one file
+  readonly maxConcurrency = 1;
+  private binary: string;
+
+  constructor(model: string, binary: string = DEFAULT_WHISPER_CPP_BIN) {
+    this.model = model;
+    this.binary = binary;
+  }
+
+  private async run(request: ProviderRequest): Promise<WhisperCppOutput> {
+    const wavPath = `${request.filePath}.16k.wav`;
+    const outputBase = `${request.filePath}.whisper`;
+
+    try {
+      await ffmpeg(['-i', request.filePath, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wavPath, '-y'], { signal: request.signal });
+
+      const args = ['-m', this.model, '-f', wavPath, '-l', request.language ?? 'auto', '-oj', '-of', outputBase, '-np'];
+      if (request.prompt) {
+        args.push('--prompt', request.prompt);
+      }
+
+      logger.info('[WhisperCpp] Running:', this.binary, args.join(' '));
+      try {
+        await execFileAsync(this.binary, args, { maxBuffer: 64 * 1024 * 1024, signal: request.signal });
+      } catch (error) {
+        if (request.signal?.aborted) {
+          throw request.signal.reason;
+        }
+        const code = (error as NodeJS.ErrnoException).code;
+        if (code === 'ENOENT') {
+          throw new Error(`whisper.cpp binary not found: ${this.binary} (set --whisper-bin or WHISPER_CPP_BIN)`);
+        }
+        throw error;
+      }
+
+      return JSON.parse(await readFile(`${outputBase}.json`, 'utf-8')) as WhisperCppOutput;
+    } finally {
+      await rm(wavPath, { force: true });
+      await rm(`${outputBase}.json`, { force: true });
+    }
+  }
+
+  async transcribeText(request: ProviderRequest): Promise<string> {
+    const output = await this.run(request);
+    return output.transcription.map(item => item.text.trim()).join(' ');
+  }
+
+  async transcribeVerbose(request: ProviderRequest): Promise<WhisperVerboseResponse> {
+    if (request.wordTimestamps) {
+      throw new Error('Word timestamps are not supported by the whisper-cpp provider');
+    }
+    const output = await this.run(request);
+
+    const segments: WhisperSegment[] = output.transcription.map((item, i) => ({
+      id: i,
+      seek: 0,
+      start: item.offsets.from / 1000,
+      end: item.offsets.to / 1000,
+      text: item.text,
+      tokens: [],
+      temperature: 0,
+      avg_logprob: 0,
+      compression_ratio: 0,
+      no_speech_prob: 0
+    }));
+
+    return {
+      task: 'transcribe',
+      language: output.result?.language ?? request.language ?? 'auto',
+      duration: segments.length > 0 ? segments[segments.length - 1].end : 0,
+      text: segments.map(segment => segment.text.trim()).join(' '),
+      segments
+    };
+  }
+}
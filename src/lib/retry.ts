@@ -0,0 +1,193 @@
+/**
+ * Request policy shared by every API call: per-attempt timeout, retries with
+ * exponential backoff and jitter, Retry-After, and concurrency that backs off
+ * while the API is rate limiting
+ */
+
+import { setTimeout as wait } from 'timers/promises';
+import OpenAI from 'openai';
+import type { LimitFunction } from 'p-limit';
+import { logger } from '../utils/logger';
+import type { UsageTracker } from './usage';
+
+export interface RequestPolicy {
+  retries?: number;       // Attempts after the first one (default 4)
+  timeout?: number;       // ms per attempt (default 300000), 0 for no limit
+  baseDelay?: number;     // ms before the first retry (default 1000)
+  maxDelay?: number;      // ms cap for a single wait (default 60000)
+  limit?: LimitFunction;  // Limiter each attempt runs under, slowed down on 429
+  signal?: AbortSignal;   // Cancels the request and any further attempts
+  usage?: UsageTracker;   // Counts the attempts and retries
+}
+
+const DEFAULT_RETRIES = 4;
+const DEFAULT_TIMEOUT = 300000;
+const DEFAULT_BASE_DELAY = 1000;
+const DEFAULT_MAX_DELAY = 60000;
+
+// Successful requests needed per unit of concurrency before raising it again
+const RECOVERY_STREAK = 5;
+
+class RequestTimeoutError extends Error {}
+
+function statusOf(error: unknown): number | undefined {
+  return error instanceof OpenAI.APIError ? error.status : undefined;
+}
+
+/**
+ * Whether another attempt may succeed: timeouts, connection failures, 408, 409, 429 and 5xx.
+ * A 429 for an exhausted quota is final.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof RequestTimeoutError || error instanceof OpenAI.APIConnectionError) {
+    return true;
+  }
+  if (error instanceof OpenAI.APIUserAbortError) {
+    return false;
+  }
+  const status = statusOf(error);
+  if (status !== undefined) {
+    if (status === 429 && error instanceof OpenAI.APIError && error.code === 'insufficient_quota') {
+      return false;
+    }
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+  // fetch and socket errors from providers that do not use the SDK
+  const code = (error as { code?: string; cause?: { code?: string } })?.cause?.code
+    ?? (error as { code?: string })?.code;
+  return ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'UND_ERR_SOCKET'].includes(code ?? '')
+    || (error instanceof TypeError && error.message === 'fetch failed');
+}
+
+/**
+ * Wait requested by the server in retry-after-ms or retry-after (seconds or HTTP date)
+ */
+export function retryAfterMs(error: unknown): number | undefined {
+  if (!(error instanceof OpenAI.APIError) || !error.headers) return undefined;
+  const headers = error.headers as Record<string, string | null | undefined>;
+
+  const ms = Number(headers['retry-after-ms']);
+  if (headers['retry-after-ms'] && Number.isFinite(ms)) return ms;
+
+  const value = headers['retry-after'];
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+interface Throttle {
+  max: number;
+  streak: number;
+}
+
+// One throttle per limiter, so transcriptions sharing a limiter back off together
+const throttles = new WeakMap<LimitFunction, Throttle>();
+
+function throttleFor(limit: LimitFunction): Throttle {
+  let throttle = throttles.get(limit);
+  if (!throttle) {
+    throttle = { max: limit.concurrency, streak: 0 };
+    throttles.set(limit, throttle);
+  }
+  return throttle;
+}
+
+function onRateLimited(limit: LimitFunction): void {
+  const throttle = throttleFor(limit);
+  throttle.streak = 0;
+  if (limit.concurrency > 1) {
+    limit.concurrency = Math.max(1, Math.floor(limit.concurrency / 2));
+    logger.warn(`[Retry] Rate limited, concurrency lowered to ${limit.concurrency}`);
+  }
+}
+
+function onSucceeded(limit: LimitFunction): void {
+  const throttle = throttleFor(limit);
+  if (limit.concurrency >= throttle.max) return;
+  throttle.streak++;
+  if (throttle.streak >= RECOVERY_STREAK * limit.concurrency) {
+    throttle.streak = 0;
+    limit.concurrency++;
+    logger.info(`[Retry] Concurrency raised to ${limit.concurrency}`);
+  }
+}
+
+// Wait, ending early with the abort reason when the signal fires
+const sleep = (ms: number, signal?: AbortSignal) =>
+  wait(ms, undefined, { signal }).catch(error => {
+    throw signal?.aborted ? signal.reason : error;
+  });
+
+/**
+ * Run a request under the policy. `request` receives an AbortSignal that fires
+ * when the attempt times out or the policy's signal is aborted, and must pass it
+ * on to the underlying call. Each attempt takes a slot of the policy's limiter,
+ * so the caller must not hold one itself.
+ */
+export async function withRetry<T>(
+  label: string,
+  request: (signal: AbortSignal) => Promise<T>,
+  policy: RequestPolicy = {}
+): Promise<T> {
+  const {
+    retries = DEFAULT_RETRIES,
+    timeout = DEFAULT_TIMEOUT,
+    baseDelay = DEFAULT_BASE_DELAY,
+    maxDelay = DEFAULT_MAX_DELAY,
+    limit,
+    signal,
+    usage
+  } = policy;
+
+  // One attempt, aborted when it takes longer than `timeout`
+  const attemptOnce = async (): Promise<T> => {
+    signal?.throwIfAborted();
+    const controller = new AbortController();
+    const timer = timeout > 0 ? setTimeout(() => controller.abort(), timeout) : undefined;
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
+
+    try {
+      usage?.recordRequest();
+      return await request(controller.signal);
+    } catch (error) {
+      if (controller.signal.aborted && !signal?.aborted) {
+        throw new RequestTimeoutError(`${label} timed out after ${timeout / 1000}s`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      // The limiter slot is taken for each attempt, so a request waiting to retry lets others run
+      const result = await (limit ? limit(attemptOnce) : attemptOnce());
+      if (limit) onSucceeded(limit);
+      return result;
+    } catch (error) {
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+      if (!isRetryableError(error) || attempt >= retries) {
+        throw error;
+      }
+
+      if (statusOf(error) === 429 && limit) {
+        onRateLimited(limit);
+      }
+
+      // Exponential backoff with jitter, unless the server said how long to wait
+      const backoff = baseDelay * 2 ** attempt;
+      const delay = Math.min(retryAfterMs(error) ?? backoff / 2 + Math.random() * (backoff / 2), maxDelay);
+      const reason = error instanceof Error ? error.message : String(error);
+      logger.warn(`[Retry] ${label} failed (${reason}), retry ${attempt + 1}/${retries} in ${(delay / 1000).toFixed(1)}s`);
+      usage?.recordRetry(label);
+      await sleep(delay, signal);
+    }
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Audio chunk planning and splitting with ffmpeg
+ *
+ * fixed:   cut every `chunkDuration` seconds
+ * silence: cut at the longest pause found in the window before each target cut point,
+ *          falling back to the target when no pause is detected
+ */
+
+import { logger } from '../utils/logger';
+import { ffmpeg, ffprobe } from './ffmpeg';
+import { ChunkBoundary } from './types';
+
+export type SplitStrategy = 'fixed' | 'silence';
+
+export const SPLIT_STRATEGIES: SplitStrategy[] = ['fixed', 'silence'];
+
+export interface SilenceInterval {
+  start: number;          // seconds
+  end: number;            // seconds
+}
+
+export interface SilenceDetectOptions {
+  noiseDb?: number;       // Silence threshold in dB (default -30)
+  minDuration?: number;   // Minimum pause length in seconds (default 0.4)
+  signal?: AbortSignal;   // Kills ffmpeg
+}
+
+export interface PlanOptions {
+  strategy: SplitStrategy;
+  chunkDuration: number;
+  searchWindow?: number;  // How far before the target cut to look for a pause (default 30s)
+  overlap?: number;       // Seconds each chunk extends back into the previous one (default 0)
+  silences?: SilenceInterval[]; // Pauses detected earlier, skips detecting them again
+  signal?: AbortSignal;   // Kills ffmpeg while detecting pauses
+}
+
+const DEFAULT_NOISE_DB = -30;
+const DEFAULT_MIN_SILENCE = 0.4;
+const DEFAULT_SEARCH_WINDOW = 30;
+
+// A trailing remainder shorter than this is merged into the last chunk
+const MIN_CHUNK_DURATION = 1;
+
+/**
+ * Get audio duration in seconds using ffprobe. `inputArgs` go before the input,
+ * e.g. HTTP headers for a URL.
+ */
+export async function probeDuration(inputPath: string, signal?: AbortSignal, inputArgs: string[] = []): Promise<number> {
+  const { stdout } = await ffprobe([...inputArgs, '-i', inputPath, '-show_entries', 'format=duration', '-v', 'quiet', '-of', 'csv=p=0'], { signal });
+  return parseFloat(stdout);
+}
+
+/**
+ * Get the bitrate of the first audio stream in bytes per second, undefined when the
+ * container does not record it. Chunks only carry this stream, so it sizes them better
+ * than the file size, which includes video and cover art.
+ */
+export async function probeAudioByteRate(inputPath: string, signal?: AbortSignal, inputArgs: string[] = []): Promise<number | undefined> {
+  try {
+    const { stdout } = await ffprobe(
+      [...inputArgs, '-i', inputPath, '-select_streams', 'a:0', '-show_entries', 'stream=bit_rate', '-v', 'quiet', '-of', 'csv=p=0'],
+      { signal }
+    );
+    const bitRate = parseFloat(stdout);
+    return bitRate > 0 ? bitRate / 8 : undefined;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    return undefined;
+  }
+}
+
+/**
+ * Get the container start time in seconds using ffprobe (0 when unknown)
+ */
+export async function probeStartTime(inputPath: string, signal?: AbortSignal): Promise<number> {
+  try {
+    const { stdout } = await ffprobe(['-i', inputPath, '-show_entries', 'format=start_time', '-v', 'quiet', '-of', 'csv=p=0'], { signal });
+    const startTime = parseFloat(stdout);
+    return Number.isNaN(startTime) ? 0 : startTime;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    return 0;
+  }
+}
+
+/**
+ * Parse silencedetect filter output into silence intervals
+ */
+export function parseSilenceOutput(output: string, totalDuration: number): SilenceInterval[] {
+  const silences: SilenceInterval[] = [];
+  let currentStart: number | null = null;
+
+  for (const line of output.split('\n')) {
+    const startMatch = line.match(/silence_start:\s*(-?[\d.]+)/);
+    if (startMatch) {
+      currentStart = Math.max(0, parseFloat(startMatch[1]));
+      continue;
+    }
+    const endMatch = line.match(/silence_end:\s*([\d.]+)/);
+    if (endMatch && currentStart !== null) {
+      silences.push({ start: currentStart, end: parseFloat(endMatch[1]) });
+      currentStart = null;
+    }
+  }
+
+  // Silence running until the end of the file has no silence_end line
+  if (currentStart !== null) {
+    silences.push({ start: currentStart, end: totalDuration });
+  }
+
+  return silences;
+}
+
+/**
+ * Detect pauses in the audio using ffmpeg's silencedetect filter
+ */
+export async function detectSilences(
+  inputPath: string,
+  totalDuration: number,
+  options: SilenceDetectOptions = {}
+): Promise<SilenceInterval[]> {
+  const { noiseDb = DEFAULT_NOISE_DB, minDuration = DEFAULT_MIN_SILENCE, signal } = options;
+
+  // silencedetect reports on stderr
+  const { stderr } = await ffmpeg(
+    ['-hide_banner', '-nostats', '-i', inputPath, '-af', `silencedetect=noise=${noiseDb}dB:d=${minDuration}`, '-f', 'null', '-'],
+    { signal, maxBuffer: 64 * 1024 * 1024 }
+  );
+  const silences = parseSilenceOutput(stderr, totalDuration);
+
+  logger.info(`[Splitter] Detected ${silences.length} pauses`);
+  return silences;
+}
+
+/**
+ * Plan fixed-length chunks covering the whole audio
+ */
+export function planFixedChunks(totalDuration: number, chunkDuration: number): ChunkBoundary[] {
+  const totalChunks = Math.ceil(totalDuration / chunkDuration);
+
+  return Array.from({ length: totalChunks }, (_, i) => ({
+    index: i,
+    start: i * chunkDuration,
+    duration: chunkDuration
+  }));
+}
+
+/**
+ * Plan chunks no longer than `chunkDuration`, cutting in the middle of the longest
+ * pause that falls within `searchWindow` seconds before each target cut point
+ */
+export function planSilenceChunks(
+  totalDuration: number,
+  silences: SilenceInterval[],
+  chunkDuration: number,
+  searchWindow: number = DEFAULT_SEARCH_WINDOW
+): ChunkBoundary[] {
+  const chunks: ChunkBoundary[] = [];
+  const window = Math.min(searchWindow, chunkDuration / 2);
+  let start = 0;
+
+  while (true) {
+    const target = start + chunkDuration;
+
+    if (target >= totalDuration - MIN_CHUNK_DURATION) {
+      chunks.push({ index: chunks.length, start, duration: totalDuration - start });
+      break;
+    }
+
+    let cut = target;
+    let longestPause = 0;
+    for (const silence of silences) {
+      const middle = (silence.start + silence.end) / 2;
+      const length = silence.end - silence.start;
+      if (middle > target - window && middle <= target && length > longestPause) {
+        cut = middle;
+        longestPause = length;
+      }
+    }
+
+    chunks.push({ index: chunks.length, start, duration: cut - start });
+    start = cut;
+  }
+
+  return chunks.map(chunk => ({
+    ...chunk,
+    start: Math.round(chunk.start * 1000) / 1000,
+    duration: Math.round(chunk.duration * 1000) / 1000
+  }));
+}
+
+/**
+ * Plan chunks for an audio file with the selected strategy
+ */
+export async function planChunks(inputPath: string, totalDuration: number, options: PlanOptions): Promise<ChunkBoundary[]> {
+  const chunks = options.strategy === 'fixed'
+    ? planFixedChunks(totalDuration, options.chunkDuration)
+    : planSilenceChunks(
+        totalDuration,
+        options.silences ?? await detectSilences(inputPath, totalDuration, { signal: options.signal }),
+        options.chunkDuration,
+        options.searchWindow
+      );
+
+  return applyOverlap(chunks, options.overlap ?? 0);
+}
+
+/**
+ * Extend every chunk but the first back into the previous one by `overlap` seconds
+ */
+export function applyOverlap(chunks: ChunkBoundary[], overlap: number): ChunkBoundary[] {
+  if (overlap <= 0) return chunks;
+
+  return chunks.map(chunk => {
+    const start = Math.max(0, chunk.start - overlap);
+    return {
+      ...chunk,
+      start,
+      duration: chunk.duration + (chunk.start - start)
+    };
+  });
+}
+
+/**
+ * Find where a copy-mode cut at `time` really starts: the demuxer seeks to the
+ * packet (keyframe) at or before the requested time, so read that packet's timestamp
+ */
+export async function probeSeekPoint(inputPath: string, time: number, signal?: AbortSignal): Promise<number | null> {
+  try {
+    const { stdout } = await ffprobe(
+      ['-v', 'quiet', '-select_streams', 'a:0', '-read_intervals', `${time}%+#1`, '-show_entries', 'packet=pts_time', '-of', 'csv=p=0', inputPath],
+      { signal }
+    );
+    const ptsTime = parseFloat(stdout.trim().split('\n')[0]);
+    return Number.isNaN(ptsTime) ? null : ptsTime;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    return null;
+  }
+}
+
+/**
+ * Cut one chunk with stream copy and return its real start offset in the source
+ */
+export async function splitChunk(
+  inputPath: string,
+  chunk: ChunkBoundary,
+  outputPath: string,
+  sourceStartTime: number = 0,
+  signal?: AbortSignal
+): Promise<number> {
+  // ffmpeg input seeking is relative to the file start, ffprobe intervals are absolute
+  // -vn drops video and cover art, chunks only carry the audio stream
+  await ffmpeg(
+    ['-v', 'error', '-ss', String(chunk.start), '-i', inputPath, '-t', String(chunk.duration), '-vn', '-c', 'copy', outputPath, '-y'],
+    { signal }
+  );
+
+  const seekPoint = await probeSeekPoint(inputPath, chunk.start + sourceStartTime, signal);
+  if (seekPoint === null) {
+    return chunk.start;
+  }
+
+  const actualStart = seekPoint - sourceStartTime;
+  if (actualStart < 0 || Math.abs(actualStart - chunk.start) > chunk.duration / 2) {
+    // Implausible value from the demuxer, trust the plan
+    return chunk.start;
+  }
+  return actualStart;
+}
@@ -2,41 +2,92 @@
  * SRT format conversion utilities
  */
 
-import { WhisperSegment, SrtEntry } from './types';
+import { WhisperSegment, WhisperWord, SrtEntry } from './types';
+import { formatClockTime } from './subtitles/time';
 
 /**
  * Convert seconds to SRT time format (HH:MM:SS,mmm)
  */
 export function formatSrtTime(seconds: number): string {
-  const hours = Math.floor(seconds / 3600);
-  const minutes = Math.floor((seconds % 3600) / 60);
-  const secs = Math.floor(seconds % 60);
-  const millis = Math.round((seconds % 1) * 1000);
+  return formatClockTime(seconds, ',');
+}
 
-  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')},${millis.toString().padStart(3, '0')}`;
+export interface SegmentConversionOptions {
+  offset?: number;        // Real start of the chunk in the source audio, in seconds (default 0)
+  startIndex?: number;    // Starting SRT index, 1-based (default 1)
+  words?: WhisperWord[];  // Word timestamps of the same response, attached to the entries they fall in
 }
 
 /**
  * Convert Whisper segments to SRT entries with time offset applied
  * @param segments - Whisper verbose_json segments
+ * @param options - Offset, first index and word timestamps
+ */
+export function convertSegmentsToSrtEntries(segments: WhisperSegment[], options?: SegmentConversionOptions): SrtEntry[];
+/**
+ * Convert Whisper segments of fixed-length chunks to SRT entries
+ * @param segments - Whisper verbose_json segments
  * @param chunkIndex - Current chunk index (0-based)
  * @param chunkDuration - Duration of each chunk in seconds
  * @param startIndex - Starting SRT index (1-based)
+ * @deprecated Pass the chunk's real offset in an options object
  */
 export function convertSegmentsToSrtEntries(
   segments: WhisperSegment[],
   chunkIndex: number,
   chunkDuration: number,
   startIndex: number
+): SrtEntry[];
+export function convertSegmentsToSrtEntries(
+  segments: WhisperSegment[],
+  optionsOrChunkIndex: SegmentConversionOptions | number = {},
+  chunkDuration?: number,
+  legacyStartIndex?: number
 ): SrtEntry[] {
-  const timeOffset = chunkIndex * chunkDuration;
+  const { offset: timeOffset = 0, startIndex = 1, words } = typeof optionsOrChunkIndex === 'number'
+    ? { offset: optionsOrChunkIndex * (chunkDuration ?? 0), startIndex: legacyStartIndex }
+    : optionsOrChunkIndex;
 
-  return segments.map((segment, i) => ({
+  const entries: SrtEntry[] = segments.map((segment, i) => ({
     index: startIndex + i,
     startTime: segment.start + timeOffset,
     endTime: segment.end + timeOffset,
     text: segment.text.trim()
   }));
+
+  if (words) {
+    const shifted = words.map(word => ({
+      word: word.word.trim(),
+      start: word.start + timeOffset,
+      end: word.end + timeOffset
+    }));
+    return attachWords(entries, shifted);
+  }
+  return entries;
+}
+
+/**
+ * Give each entry the words whose midpoint falls before the next entry starts,
+ * so words in the gaps between entries are not lost
+ */
+export function attachWords(entries: SrtEntry[], words: WhisperWord[]): SrtEntry[] {
+  let w = 0;
+  return entries.map((entry, i) => {
+    const limit = i + 1 < entries.length ? entries[i + 1].startTime : Infinity;
+    const own: WhisperWord[] = [];
+    while (w < words.length && (words[w].start + words[w].end) / 2 < limit) {
+      if (words[w].word) own.push(words[w]);
+      w++;
+    }
+    return { ...entry, words: own };
+  });
+}
+
+/**
+ * All word timings of a timeline, in order
+ */
+export function collectWords(entries: SrtEntry[]): WhisperWord[] {
+  return entries.flatMap(entry => entry.words ?? []);
 }
 
 /**
@@ -0,0 +1,71 @@
+/**
+ * Advanced SubStation Alpha writer (Aegisub, libass, ffmpeg's subtitles filter)
+ *
+ * Cues with word timing get karaoke tags ({\kf} sweeps each word as it is spoken),
+ * other cues are written as plain dialogue.
+ */
+
+import { SrtEntry } from '../types';
+import { splitTime } from './time';
+import { SubtitleWriter } from './types';
+import { splitByWords } from './words';
+
+const HEADER = `[Script Info]
+ScriptType: v4.00+
+PlayResX: 1920
+PlayResY: 1080
+WrapStyle: 0
+ScaledBorderAndShadow: yes
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
+Style: Default,Arial,64,&H00FFFFFF,&H0000FFFF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,3,1,2,80,80,60,1
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text`;
+
+/**
+ * Convert seconds to ASS time format (H:MM:SS.cc, centiseconds)
+ */
+export function formatAssTime(seconds: number): string {
+  const centis = Math.max(0, Math.round(seconds * 100));
+  const parts = splitTime(centis / 100);
+  return `${parts.hours}:${parts.minutes.toString().padStart(2, '0')}:${parts.seconds.toString().padStart(2, '0')}.${Math.round(parts.millis / 10).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Escape dialogue text: braces start override blocks, backslashes start tags,
+ * and line breaks are written as \N
+ */
+export function escapeAssText(text: string): string {
+  return text
+    .replace(/\\/g, '⧵')
+    .replace(/\{/g, '(')
+    .replace(/\}/g, ')')
+    .replace(/\r?\n/g, '\\N');
+}
+
+function dialogueText(entry: SrtEntry): string {
+  const pieces = splitByWords(entry);
+  if (!pieces) {
+    return escapeAssText(entry.text);
+  }
+
+  // \kf durations are centiseconds; silence before the first word is an empty syllable
+  const centis = (seconds: number) => Math.max(0, Math.round(seconds * 100));
+  const lead = centis(pieces[0].start - entry.startTime);
+  const syllables = pieces.map(piece => `{\\kf${centis(piece.end - piece.start)}}${escapeAssText(piece.text)}`);
+  return (lead > 0 ? `{\\k${lead}}` : '') + syllables.join('');
+}
+
+export function entriesToAssString(entries: SrtEntry[]): string {
+  const events = entries.map(entry =>
+    `Dialogue: 0,${formatAssTime(entry.startTime)},${formatAssTime(entry.endTime)},Default,,0,0,0,,${dialogueText(entry)}`
+  );
+  return [HEADER, ...events].join('\n') + '\n';
+}
+
+export const assWriter: SubtitleWriter = {
+  extension: 'ass',
+  write: entries => entriesToAssString(entries)
+};
@@ -0,0 +1,53 @@
+/**
+ * Subtitle writers, one per output format, all built from the same SrtEntry timeline
+ */
+
+import { SrtEntry } from '../types';
+import { srtWriter } from './srt';
+import { vttWriter } from './vtt';
+import { ttmlWriter } from './ttml';
+import { assWriter } from './ass';
+import { segmentsWriter } from './segments';
+import { SubtitleFormat, SubtitleWriter, SubtitleWriterOptions } from './types';
+
+export const SUBTITLE_WRITERS: Record<SubtitleFormat, SubtitleWriter> = {
+  srt: srtWriter,
+  vtt: vttWriter,
+  ttml: ttmlWriter,
+  ass: assWriter,
+  segments: segmentsWriter
+};
+
+export const SUBTITLE_FORMATS = Object.keys(SUBTITLE_WRITERS) as SubtitleFormat[];
+
+export function isSubtitleFormat(format: string): format is SubtitleFormat {
+  return SUBTITLE_FORMATS.includes(format as SubtitleFormat);
+}
+
+/**
+ * Render subtitle entries in the given format
+ */
+export function writeSubtitles(
+  entries: SrtEntry[],
+  format: SubtitleFormat,
+  options: SubtitleWriterOptions = {}
+): string {
+  return SUBTITLE_WRITERS[format].write(entries, options);
+}
+
+export { formatVttTime, escapeVttText, entriesToVttString } from './vtt';
+export { formatTtmlTime, entriesToTtmlString } from './ttml';
+export { formatAssTime, escapeAssText, entriesToAssString } from './ass';
+export { splitByWords, type TimedPiece } from './words';
+export { entriesToSegments, type SegmentJson } from './segments';
+export type { SubtitleFormat, SubtitleWriter, SubtitleWriterOptions } from './types';
+export {
+  parseSrt,
+  parseVtt,
+  parseSegmentsJson,
+  parseSubtitles,
+  parseTimestamp,
+  detectSubtitleFormat,
+  type SubtitleInputFormat
+} from './parse';
+export { transformTimes, renumberEntries, type TimeTransform } from './transform';
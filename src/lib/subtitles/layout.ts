@@ -0,0 +1,301 @@
+/**
+ * Subtitle layout: re-segment cues to respect line length, line count,
+ * cue duration and reading speed limits
+ *
+ * Widths are counted in half-width columns: CJK and other full-width
+ * characters count as two, so one limit works for mixed Chinese/Latin text.
+ */
+
+import { SrtEntry } from '../types';
+
+export interface LayoutOptions {
+  maxCharsPerLine: number;  // columns, full-width characters count twice
+  maxLines: number;
+  minDuration: number;      // seconds
+  maxDuration: number;      // seconds
+  maxCps: number;           // characters (columns / 2 for full-width) per second
+}
+
+export const LAYOUT_PRESETS: Record<string, LayoutOptions> = {
+  netflix: { maxCharsPerLine: 42, maxLines: 2, minDuration: 5 / 6, maxDuration: 7, maxCps: 20 },
+  youtube: { maxCharsPerLine: 42, maxLines: 2, minDuration: 1, maxDuration: 6, maxCps: 25 },
+  bbc: { maxCharsPerLine: 37, maxLines: 2, minDuration: 1.2, maxDuration: 7, maxCps: 17 }
+};
+
+// Used for limits not given by a preset or flag
+export const DEFAULT_LAYOUT: LayoutOptions = LAYOUT_PRESETS.netflix;
+
+// Cues separated by less than this can be merged
+const MERGE_GAP = 0.5;
+
+// Full-width ranges: CJK punctuation, kana, CJK ideographs, Hangul, full-width forms
+const WIDE_CHAR = /[\u1100-\u115f\u2e80-\u303e\u3040-\u33ff\u3400-\u4dbf\u4e00-\u9fff\ua960-\ua97f\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]/;
+
+// Characters after which a cue or line break reads naturally
+const SENTENCE_END = /[.!?。！？…]$/;
+const CLAUSE_END = /[,;:，、；：]$/;
+
+interface Unit {
+  text: string;
+  spaceBefore: boolean;
+}
+
+/**
+ * Display width of a string in half-width columns
+ */
+export function displayWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    width += WIDE_CHAR.test(char) ? 2 : 1;
+  }
+  return width;
+}
+
+/**
+ * Reading length used for characters-per-second: a full-width character counts as one
+ */
+function readingLength(text: string): number {
+  return [...text.replace(/\s+/g, ' ').trim()].length;
+}
+
+// Words for spaced scripts, single characters (with trailing punctuation) for CJK
+function toUnits(text: string): Unit[] {
+  const units: Unit[] = [];
+  const pattern = /\s+|[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff][\u3000-\u303f\uff01-\uff0f\uff1a-\uff1f]*|[^\s\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]+/g;
+  let spaceBefore = false;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (/^\s+$/.test(match[0])) {
+      spaceBefore = units.length > 0;
+      continue;
+    }
+    units.push({ text: match[0], spaceBefore });
+    spaceBefore = false;
+  }
+  return units;
+}
+
+function joinUnits(units: Unit[]): string {
+  return units.map((unit, i) => (i > 0 && unit.spaceBefore ? ' ' : '') + unit.text).join('');
+}
+
+// Join two cue texts, without a space between full-width characters
+function joinTexts(a: string, b: string): string {
+  const left = a.trimEnd();
+  const right = b.trimStart();
+  const tight = WIDE_CHAR.test(left.slice(-1)) || WIDE_CHAR.test(right.charAt(0));
+  return tight ? left + right : `${left} ${right}`;
+}
+
+// Preference for breaking after a unit: sentence end > clause end > word gap > inside CJK run
+function breakScore(units: Unit[], index: number): number {
+  const unit = units[index];
+  if (SENTENCE_END.test(unit.text)) return 3;
+  if (CLAUSE_END.test(unit.text)) return 2;
+  if (index + 1 < units.length && units[index + 1].spaceBefore) return 1;
+  return 0;
+}
+
+/**
+ * Split units into pieces of at most `capacity` columns, preferring breaks at
+ * sentence and clause ends in the second half of each piece
+ */
+function splitUnits(units: Unit[], capacity: number): Unit[][] {
+  const pieces: Unit[][] = [];
+  let start = 0;
+
+  while (start < units.length) {
+    let end = start;
+    while (end < units.length && displayWidth(joinUnits(units.slice(start, end + 1))) <= capacity) {
+      end++;
+    }
+    if (end === units.length) {
+      pieces.push(units.slice(start));
+      break;
+    }
+    // A single unit wider than the capacity still has to go somewhere
+    if (end === start) {
+      end = start + 1;
+    } else {
+      const half = start + Math.ceil((end - start) / 2);
+      let best = end - 1;
+      let bestScore = breakScore(units, best);
+      for (let i = end - 1; i >= half - 1 && i > start - 1; i--) {
+        const score = breakScore(units, i);
+        if (score > bestScore) {
+          best = i;
+          bestScore = score;
+        }
+      }
+      end = best + 1;
+    }
+    pieces.push(units.slice(start, end));
+    start = end;
+  }
+
+  return pieces;
+}
+
+/**
+ * Wrap cue text into at most `maxLines` lines, balancing line lengths
+ */
+export function wrapLines(text: string, maxCharsPerLine: number, maxLines: number): string {
+  const units = toUnits(text.replace(/\n/g, ' '));
+  if (displayWidth(joinUnits(units)) <= maxCharsPerLine || maxLines <= 1) {
+    return joinUnits(units);
+  }
+
+  // Balanced two-line split: the break closest to the middle that keeps both lines in bounds
+  if (maxLines === 2) {
+    const total = displayWidth(joinUnits(units));
+    let best = -1;
+    let bestCost = Infinity;
+    for (let i = 0; i < units.length - 1; i++) {
+      const top = displayWidth(joinUnits(units.slice(0, i + 1)));
+      const bottom = displayWidth(joinUnits(units.slice(i + 1)));
+      if (top > maxCharsPerLine || bottom > maxCharsPerLine) continue;
+      // Prefer natural breaks and a slightly shorter top line
+      const cost = Math.abs(top - total / 2) - breakScore(units, i) * 3 + (top > bottom ? 1 : 0);
+      if (cost < bestCost) {
+        best = i;
+        bestCost = cost;
+      }
+    }
+    if (best >= 0) {
+      return `${joinUnits(units.slice(0, best + 1))}\n${joinUnits(units.slice(best + 1))}`;
+    }
+  }
+
+  return splitUnits(units, maxCharsPerLine).map(joinUnits).join('\n');
+}
+
+/**
+ * Split one cue into cues that fit the size and duration limits,
+ * sharing the cue's time span in proportion to text length
+ */
+function splitEntry(entry: SrtEntry, options: LayoutOptions): SrtEntry[] {
+  const units = toUnits(entry.text.replace(/\n/g, ' '));
+  const width = displayWidth(joinUnits(units));
+  const duration = entry.endTime - entry.startTime;
+  const capacity = options.maxCharsPerLine * options.maxLines;
+
+  const count = Math.max(
+    Math.ceil(width / capacity),
+    Math.ceil(duration / options.maxDuration),
+    1
+  );
+  if (count === 1 || units.length <= 1) {
+    return [entry];
+  }
+
+  const pieces = splitUnits(units, Math.min(capacity, Math.ceil(width / count) + options.maxCharsPerLine / 2));
+  if (pieces.length === 1) {
+    return [entry];
+  }
+
+  const widths = pieces.map(piece => displayWidth(joinUnits(piece)));
+  const totalWidth = widths.reduce((sum, w) => sum + w, 0);
+
+  let time = entry.startTime;
+  return pieces.map((piece, i) => {
+    const start = time;
+    time = i === pieces.length - 1 ? entry.endTime : time + (duration * widths[i]) / totalWidth;
+    return { index: 0, startTime: start, endTime: time, text: joinUnits(piece) };
+  });
+}
+
+function canMerge(a: SrtEntry, b: SrtEntry, options: LayoutOptions): boolean {
+  const text = joinTexts(a.text, b.text);
+  return (
+    b.startTime - a.endTime <= MERGE_GAP &&
+    b.endTime - a.startTime <= options.maxDuration &&
+    displayWidth(text) <= options.maxCharsPerLine * options.maxLines
+  );
+}
+
+/**
+ * Re-segment subtitle entries to fit the layout limits
+ * Long cues are split, short fragments are merged into their neighbour,
+ * durations are stretched into following gaps for minimum duration and reading speed
+ * and capped at the maximum duration,
+ * and the text of every cue is wrapped into balanced lines
+ */
+export function layoutEntries(entries: SrtEntry[], options: LayoutOptions): SrtEntry[] {
+  // 1. Split cues that are too long in text or time
+  const split = entries.flatMap(entry => splitEntry(entry, options));
+
+  // 2. Merge cues shorter than the minimum duration into the next cue
+  const merged: SrtEntry[] = [];
+  for (const entry of split) {
+    const previous = merged[merged.length - 1];
+    const previousShort = previous && previous.endTime - previous.startTime < options.minDuration;
+    if (previous && previousShort && canMerge(previous, entry, options)) {
+      merged[merged.length - 1] = {
+        ...previous,
+        endTime: entry.endTime,
+        text: joinTexts(previous.text, entry.text)
+      };
+    } else {
+      merged.push({ ...entry });
+    }
+  }
+
+  // 3. Stretch cues into the following gap for minimum duration and reading speed,
+  //    and cut cues that still run longer than the maximum (e.g. over trailing silence)
+  for (let i = 0; i < merged.length; i++) {
+    const entry = merged[i];
+    const nextStart = i + 1 < merged.length ? merged[i + 1].startTime : Infinity;
+    const needed = Math.max(options.minDuration, readingLength(entry.text) / options.maxCps);
+    const wanted = Math.min(entry.startTime + needed, entry.startTime + options.maxDuration);
+    if (entry.endTime < wanted) {
+      entry.endTime = Math.max(entry.endTime, Math.min(wanted, nextStart));
+    }
+    entry.endTime = Math.min(entry.endTime, entry.startTime + options.maxDuration);
+  }
+
+  // 4. Wrap lines and renumber
+  return merged.map((entry, i) => ({
+    ...entry,
+    index: i + 1,
+    text: wrapLines(entry.text, options.maxCharsPerLine, options.maxLines)
+  }));
+}
+
+/**
+ * Build layout options from a preset name and individual overrides
+ * Returns null when neither is given, meaning no layout pass
+ */
+export function resolveLayoutOptions(
+  preset: string | undefined,
+  overrides: Partial<LayoutOptions>
+): LayoutOptions | null {
+  const defined = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined)
+  ) as Partial<LayoutOptions>;
+
+  if (!preset && Object.keys(defined).length === 0) {
+    return null;
+  }
+
+  let base = DEFAULT_LAYOUT;
+  if (preset) {
+    base = LAYOUT_PRESETS[preset.toLowerCase()];
+    if (!base) {
+      throw new Error(`Unknown subtitle preset: ${preset} (expected ${Object.keys(LAYOUT_PRESETS).join(', ')})`);
+    }
+  }
+
+  const options = { ...base, ...defined };
+  for (const [key, value] of Object.entries(options)) {
+    if (!Number.isFinite(value) || value <= 0) {
+      throw new Error(`Invalid subtitle layout value for ${key}: ${value}`);
+    }
+  }
+  if (!Number.isInteger(options.maxLines)) {
+    throw new Error(`Invalid subtitle layout value for maxLines: ${options.maxLines} (expected a whole number of at least 1)`);
+  }
+  if (options.minDuration > options.maxDuration) {
+    throw new Error('Minimum cue duration cannot exceed the maximum cue duration');
+  }
+  return options;
+}
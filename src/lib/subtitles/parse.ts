@@ -0,0 +1,160 @@
+/**
+ * Subtitle parsers: SRT, WebVTT and pt's own JSON output, all producing SrtEntry[]
+ */
+
+import { extname } from 'path';
+import { SrtEntry } from '../types';
+
+export type SubtitleInputFormat = 'srt' | 'vtt' | 'json';
+
+const TIMING_LINE = /^\s*(\S+)\s+-->\s+(\S+)/;
+
+/**
+ * Parse an SRT or WebVTT timestamp (HH:MM:SS,mmm, HH:MM:SS.mmm or MM:SS.mmm) into seconds
+ */
+export function parseTimestamp(value: string): number {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[,.](\d{1,3}))?$/);
+  if (!match) {
+    throw new Error(`Invalid timestamp: ${value}`);
+  }
+  const [, hours = '0', minutes, seconds, millis = '0'] = match;
+  return (
+    parseInt(hours, 10) * 3600 +
+    parseInt(minutes, 10) * 60 +
+    parseInt(seconds, 10) +
+    parseInt(millis.padEnd(3, '0'), 10) / 1000
+  );
+}
+
+// Split into blocks separated by blank lines, normalizing line endings and BOM
+function toBlocks(content: string): string[][] {
+  return content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/)
+    .map(block => block.split('\n').filter(line => line.trim() !== ''))
+    .filter(lines => lines.length > 0);
+}
+
+function parseCueBlock(lines: string[]): SrtEntry | null {
+  const timingIndex = lines.findIndex(line => TIMING_LINE.test(line));
+  if (timingIndex === -1) return null;
+
+  const [, start, end] = lines[timingIndex].match(TIMING_LINE)!;
+  return {
+    index: 0,
+    startTime: parseTimestamp(start),
+    endTime: parseTimestamp(end),
+    text: lines.slice(timingIndex + 1).join('\n').trim()
+  };
+}
+
+function numbered(entries: SrtEntry[]): SrtEntry[] {
+  return entries.map((entry, i) => ({ ...entry, index: i + 1 }));
+}
+
+/**
+ * Parse SRT content. Cue numbers in the file are ignored, entries are numbered from 1.
+ */
+export function parseSrt(content: string): SrtEntry[] {
+  return numbered(
+    toBlocks(content)
+      .map(parseCueBlock)
+      .filter((entry): entry is SrtEntry => entry !== null)
+  );
+}
+
+function decodeVttText(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Parse WebVTT content. NOTE, STYLE and REGION blocks are skipped, cue settings
+ * are dropped and inline tags (<v>, <i>, timestamps) are stripped from the text.
+ */
+export function parseVtt(content: string): SrtEntry[] {
+  const blocks = toBlocks(content);
+  if (blocks.length === 0 || !blocks[0][0].startsWith('WEBVTT')) {
+    throw new Error('Invalid WebVTT: missing WEBVTT header');
+  }
+
+  const entries: SrtEntry[] = [];
+  for (const lines of blocks.slice(1)) {
+    if (/^(NOTE|STYLE|REGION)\b/.test(lines[0])) continue;
+    const entry = parseCueBlock(lines);
+    if (entry) {
+      entries.push({ ...entry, text: decodeVttText(entry.text) });
+    }
+  }
+  return numbered(entries);
+}
+
+interface JsonSegment {
+  start: number;
+  end: number;
+  text: string;
+  words?: { word: string; start: number; end: number }[];
+}
+
+/**
+ * Parse pt JSON output ({ segments: [...] }) or a bare segments array
+ */
+export function parseSegmentsJson(content: string): SrtEntry[] {
+  const data = JSON.parse(content) as unknown;
+  const segments = Array.isArray(data)
+    ? data
+    : (data as { segments?: unknown })?.segments;
+
+  if (!Array.isArray(segments)) {
+    throw new Error('JSON input has no segments (transcribe with --output-format json or segments first)');
+  }
+
+  return numbered(
+    (segments as JsonSegment[]).map(segment => {
+      if (typeof segment.start !== 'number' || typeof segment.end !== 'number' || typeof segment.text !== 'string') {
+        throw new Error('Invalid segment in JSON input: expected start, end and text');
+      }
+      const entry: SrtEntry = { index: 0, startTime: segment.start, endTime: segment.end, text: segment.text };
+      if (Array.isArray(segment.words)) {
+        entry.words = segment.words.filter(word =>
+          typeof word.word === 'string' && typeof word.start === 'number' && typeof word.end === 'number'
+        );
+      }
+      return entry;
+    })
+  );
+}
+
+/**
+ * Guess the subtitle format from the file extension, then from the content
+ */
+export function detectSubtitleFormat(content: string, fileName?: string): SubtitleInputFormat {
+  const ext = fileName ? extname(fileName).slice(1).toLowerCase() : '';
+  if (ext === 'srt' || ext === 'vtt' || ext === 'json') {
+    return ext;
+  }
+
+  const head = content.replace(/^\uFEFF/, '').trimStart();
+  if (head.startsWith('WEBVTT')) return 'vtt';
+  if (head.startsWith('{') || head.startsWith('[')) return 'json';
+  return 'srt';
+}
+
+/**
+ * Parse subtitle content in the given (or detected) format
+ */
+export function parseSubtitles(content: string, format: SubtitleInputFormat): SrtEntry[] {
+  switch (format) {
+    case 'vtt':
+      return parseVtt(content);
+    case 'json':
+      return parseSegmentsJson(content);
+    default:
+      return parseSrt(content);
+  }
+}
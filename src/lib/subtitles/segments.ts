@@ -0,0 +1,37 @@
+/**
+ * Raw segment timeline as JSON, for tooling that does its own rendering
+ */
+
+import { SrtEntry } from '../types';
+import { SubtitleWriter } from './types';
+
+export interface WordJson {
+  word: string;
+  start: number;          // seconds, millisecond precision
+  end: number;
+}
+
+export interface SegmentJson {
+  index: number;
+  start: number;          // seconds, millisecond precision
+  end: number;
+  text: string;
+  words?: WordJson[];     // With --word-timestamps
+}
+
+const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+export function entriesToSegments(entries: SrtEntry[]): SegmentJson[] {
+  return entries.map(entry => ({
+    index: entry.index,
+    start: round(entry.startTime),
+    end: round(entry.endTime),
+    text: entry.text,
+    words: entry.words?.map(word => ({ word: word.word, start: round(word.start), end: round(word.end) }))
+  }));
+}
+
+export const segmentsWriter: SubtitleWriter = {
+  extension: 'segments.json',
+  write: entries => JSON.stringify(entriesToSegments(entries), null, 2)
+};
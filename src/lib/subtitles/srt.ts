@@ -0,0 +1,7 @@
+import { entriesToSrtString } from '../srt';
+import { SubtitleWriter } from './types';
+
+export const srtWriter: SubtitleWriter = {
+  extension: 'srt',
+  write: entries => entriesToSrtString(entries)
+};
@@ -0,0 +1,32 @@
+/**
+ * Timestamp helpers shared by the subtitle writers
+ */
+
+export interface TimeParts {
+  hours: number;
+  minutes: number;
+  seconds: number;
+  millis: number;
+}
+
+/**
+ * Split seconds into clock parts, rounding to whole milliseconds first
+ * so 59.9996 becomes 00:01:00.000 rather than 00:00:59.1000
+ */
+export function splitTime(seconds: number): TimeParts {
+  const totalMillis = Math.max(0, Math.round(seconds * 1000));
+  return {
+    hours: Math.floor(totalMillis / 3600000),
+    minutes: Math.floor((totalMillis % 3600000) / 60000),
+    seconds: Math.floor((totalMillis % 60000) / 1000),
+    millis: totalMillis % 1000
+  };
+}
+
+/**
+ * Format seconds as HH:MM:SS<separator>mmm
+ */
+export function formatClockTime(seconds: number, separator: string): string {
+  const parts = splitTime(seconds);
+  return `${parts.hours.toString().padStart(2, '0')}:${parts.minutes.toString().padStart(2, '0')}:${parts.seconds.toString().padStart(2, '0')}${separator}${parts.millis.toString().padStart(3, '0')}`;
+}
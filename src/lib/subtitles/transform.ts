@@ -0,0 +1,42 @@
+/**
+ * Timeline transforms for existing subtitles
+ */
+
+import { SrtEntry } from '../types';
+
+export interface TimeTransform {
+  shift?: number;         // seconds added after scaling (may be negative)
+  scale?: number;         // factor applied to every timestamp, e.g. 25 / 23.976
+}
+
+/**
+ * Apply `time * scale + shift` to every cue. Cues that end up entirely before 0
+ * are dropped, cues that start before 0 are clamped. The result is renumbered.
+ */
+export function transformTimes(entries: SrtEntry[], transform: TimeTransform): SrtEntry[] {
+  const { shift = 0, scale = 1 } = transform;
+  if (!Number.isFinite(shift) || !Number.isFinite(scale) || scale <= 0) {
+    throw new Error('Time shift must be a number and scale a positive number');
+  }
+
+  const moved = entries
+    .map(entry => ({
+      ...entry,
+      startTime: entry.startTime * scale + shift,
+      endTime: entry.endTime * scale + shift,
+      words: entry.words?.map(word => ({ ...word, start: word.start * scale + shift, end: word.end * scale + shift }))
+    }))
+    .filter(entry => entry.endTime > 0)
+    .map(entry => ({ ...entry, startTime: Math.max(0, entry.startTime) }));
+
+  return renumberEntries(moved);
+}
+
+/**
+ * Sort cues by start time and number them from 1
+ */
+export function renumberEntries(entries: SrtEntry[]): SrtEntry[] {
+  return [...entries]
+    .sort((a, b) => a.startTime - b.startTime || a.endTime - b.endTime)
+    .map((entry, i) => ({ ...entry, index: i + 1 }));
+}
@@ -0,0 +1,46 @@
+/**
+ * TTML / DFXP writer (https://www.w3.org/TR/ttml2/)
+ */
+
+import { escapeXml } from '../xml';
+import { SrtEntry } from '../types';
+import { formatClockTime } from './time';
+import { SubtitleWriter, SubtitleWriterOptions } from './types';
+
+/**
+ * Convert seconds to a TTML clock time expression (HH:MM:SS.mmm)
+ */
+export function formatTtmlTime(seconds: number): string {
+  return formatClockTime(seconds, '.');
+}
+
+export function entriesToTtmlString(entries: SrtEntry[], options: SubtitleWriterOptions = {}): string {
+  const language = options.language && options.language !== 'auto' ? options.language : 'und';
+
+  const paragraphs = entries.map(entry => {
+    const lines = entry.text.split('\n').map(line => escapeXml(line)).join('<br/>');
+    return `      <p xml:id="c${entry.index}" begin="${formatTtmlTime(entry.startTime)}" end="${formatTtmlTime(entry.endTime)}">${lines}</p>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt xmlns="http://www.w3.org/ns/ttml" xmlns:tts="http://www.w3.org/ns/ttml#styling" xml:lang="${escapeXml(language)}">`,
+    '  <head>',
+    '    <styling>',
+    '      <style xml:id="default" tts:textAlign="center"/>',
+    '    </styling>',
+    '  </head>',
+    '  <body style="default">',
+    '    <div>',
+    ...paragraphs,
+    '    </div>',
+    '  </body>',
+    '</tt>',
+    ''
+  ].join('\n');
+}
+
+export const ttmlWriter: SubtitleWriter = {
+  extension: 'ttml',
+  write: (entries, options) => entriesToTtmlString(entries, options)
+};
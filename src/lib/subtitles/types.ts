@@ -0,0 +1,12 @@
+import { SrtEntry } from '../types';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ttml' | 'ass' | 'segments';
+
+export interface SubtitleWriterOptions {
+  language?: string;      // BCP 47 language tag, used where the format records it
+}
+
+export interface SubtitleWriter {
+  extension: string;
+  write(entries: SrtEntry[], options?: SubtitleWriterOptions): string;
+}
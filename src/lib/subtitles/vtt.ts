@@ -0,0 +1,59 @@
+/**
+ * WebVTT writer (https://www.w3.org/TR/webvtt1/)
+ */
+
+import { SrtEntry } from '../types';
+import { formatClockTime } from './time';
+import { SubtitleWriter } from './types';
+import { splitByWords } from './words';
+
+/**
+ * Convert seconds to WebVTT time format (HH:MM:SS.mmm)
+ */
+export function formatVttTime(seconds: number): string {
+  return formatClockTime(seconds, '.');
+}
+
+/**
+ * Escape cue text: "&" and "<" start entities and tags, and "-->" may not appear in a cue
+ */
+export function escapeVttText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Cue text with inline timestamp tags before each word ("Hello <00:00:01.200>world"),
+ * which players use for karaoke-style highlighting. Plain text without word timing.
+ */
+function cueText(entry: SrtEntry): string {
+  const pieces = splitByWords(entry);
+  if (!pieces) {
+    return escapeVttText(entry.text);
+  }
+  // Timestamps are clamped to the cue, and a tag is only written strictly inside it and
+  // after the previous tag, as the spec requires; other words join the piece before them
+  let previous = entry.startTime;
+  return pieces.map((piece, i) => {
+    const time = Math.min(Math.max(piece.start, entry.startTime), entry.endTime);
+    if (i === 0 || time <= previous || time >= entry.endTime) {
+      return escapeVttText(piece.text);
+    }
+    previous = time;
+    return `<${formatVttTime(time)}>${escapeVttText(piece.text)}`;
+  }).join('');
+}
+
+export function entriesToVttString(entries: SrtEntry[]): string {
+  const cues = entries.map(entry =>
+    `${entry.index}\n${formatVttTime(entry.startTime)} --> ${formatVttTime(entry.endTime)}\n${cueText(entry)}\n`
+  );
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+export const vttWriter: SubtitleWriter = {
+  extension: 'vtt',
+  write: entries => entriesToVttString(entries)
+};
@@ -0,0 +1,65 @@
+/**
+ * Word timing within a cue, for writers that highlight words as they are spoken
+ */
+
+import { SrtEntry } from '../types';
+
+export interface TimedPiece {
+  text: string;           // Cue text from this word up to the next one (original spacing and line breaks)
+  start: number;          // seconds
+  end: number;            // seconds, start of the next word or the end of the cue
+}
+
+// Compare words without case and punctuation: Whisper words often lack the cue's punctuation
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+// Find `target` (normalized) in `text` from `from`, skipping punctuation inside the match
+function findWord(text: string, target: string, from: number): { start: number; end: number } | null {
+  for (let start = text.indexOf(target[0], from); start >= 0; start = text.indexOf(target[0], start + 1)) {
+    let matched = 0;
+    let i = start;
+    while (i < text.length && matched < target.length) {
+      const char = normalize(text[i]);
+      if (char) {
+        if (char !== target[matched]) break;
+        matched++;
+      }
+      i++;
+    }
+    if (matched === target.length) {
+      return { start, end: i };
+    }
+  }
+  return null;
+}
+
+/**
+ * Cut the cue text at the start of each timed word. The first piece also holds any
+ * text before the first word. Returns null when the cue has no word timing or the
+ * words cannot be found in the text in order (e.g. the text was edited).
+ */
+export function splitByWords(entry: SrtEntry): TimedPiece[] | null {
+  const words = entry.words?.filter(word => normalize(word.word)) ?? [];
+  if (words.length === 0) return null;
+
+  const lower = entry.text.toLowerCase();
+  const positions: number[] = [];
+  let from = 0;
+  for (const word of words) {
+    const match = findWord(lower, normalize(word.word), from);
+    if (!match) return null;
+    positions.push(match.start);
+    from = match.end;
+  }
+  positions[0] = 0;
+
+  return words.map((word, i) => ({
+    text: entry.text.slice(positions[i], i + 1 < positions.length ? positions[i + 1] : undefined),
+    start: Math.min(Math.max(word.start, entry.startTime), entry.endTime),
+    end: i + 1 < words.length
+      ? Math.min(Math.max(words[i + 1].start, entry.startTime), entry.endTime)
+      : entry.endTime
+  }));
+}
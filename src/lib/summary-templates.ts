@@ -0,0 +1,177 @@
+/**
+ * Summary templates: the system prompt that shapes the final summary
+ *
+ * Built-in presets are selected by name. User templates are plain text or markdown
+ * files, found by path or by name in ~/.config/pt/templates/<name>.md (or .txt).
+ * Templates may use {{title}}, {{language}}, {{duration}} and {{date}}.
+ */
+
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { basename, extname, join, resolve } from 'path';
+import { homedir } from 'os';
+
+export interface SummaryTemplate {
+  name: string;
+  title: string;          // Heading of the summary in markdown/text output
+  prompt: string;
+}
+
+export interface TemplateVariables {
+  title?: string;
+  language?: string;
+  duration?: string;
+  date?: string;
+}
+
+export const DEFAULT_TEMPLATE = 'default';
+
+const TEMPLATE_EXTENSIONS = ['.md', '.txt'];
+
+export const BUILTIN_TEMPLATES: Record<string, SummaryTemplate> = {
+  default: {
+    name: 'default',
+    title: 'Summary',
+    prompt: `You are a professional content summarizer. Create a well-structured summary following this format:
+
+OVERVIEW
+[2-3 sentences overview]
+
+KEY POINTS
+- [Point 1]
+- [Point 2]
+- [Point 3]
+
+INSIGHTS
+[2-3 main insights]
+
+QUOTES
+[1-2 significant quotes]
+
+CONTEXT
+[Important background info]
+
+Format with:
+- Section headers
+- Bullet points
+- Proper spacing
+- Concise but informative
+- Quote marks for quotes`
+  },
+  'show-notes': {
+    name: 'show-notes',
+    title: 'Show Notes',
+    prompt: `You write podcast show notes for the episode "{{title}}" ({{duration}}).
+
+Write, in markdown:
+- A short, engaging episode description (2-4 sentences) for podcast apps
+- "In this episode" with 4-8 bullet points of the topics covered, in order
+- "Guests and mentions" listing people, books, products and links mentioned (omit if none)
+- One memorable quote in quote marks
+
+Write in the language of the transcript. Do not invent facts that are not in the transcript.`
+  },
+  minutes: {
+    name: 'minutes',
+    title: 'Meeting Minutes',
+    prompt: `You take meeting minutes for "{{title}}" held on {{date}}.
+
+Write, in markdown:
+## Attendees
+Names mentioned as taking part (write "Not stated" if unclear)
+
+## Agenda and discussion
+One short paragraph or bullet list per topic, in the order discussed
+
+## Decisions
+Bullet list of decisions made
+
+## Action items
+A table with the columns Action, Owner, Due. Use "Unassigned" or "-" when the transcript does not say.
+
+Write in the language of the transcript. Only record what was actually said.`
+  },
+  thread: {
+    name: 'thread',
+    title: 'Thread',
+    prompt: `You turn the transcript of "{{title}}" into a thread of 5-10 short social media posts.
+
+- Number the posts 1/, 2/, ...
+- Each post at most 280 characters
+- The first post hooks the reader with the main idea
+- Each following post makes one concrete point, fact or quote
+- The last post wraps up
+
+Write in the language of the transcript. No hashtags unless they are essential.`
+  },
+  outline: {
+    name: 'outline',
+    title: 'Study Outline',
+    prompt: `You create a study outline from the transcript of "{{title}}".
+
+Write, in markdown:
+- A hierarchical outline (headings and nested bullets) of the concepts in the order taught
+- Definitions of key terms
+- 3-5 review questions with short answers at the end
+
+Write in the language of the transcript. Keep it faithful to the content.`
+  }
+};
+
+export function getTemplateDir(): string {
+  return join(homedir(), '.config', 'pt', 'templates');
+}
+
+// Heading for a user template: the file name with dashes and underscores as spaces
+function titleFromName(name: string): string {
+  return name.replace(/[-_]+/g, ' ').replace(/\b\w/g, char => char.toUpperCase());
+}
+
+function findTemplateFile(nameOrPath: string): string | null {
+  const direct = resolve(nameOrPath);
+  if (extname(nameOrPath) && existsSync(direct)) {
+    return direct;
+  }
+  for (const extension of TEMPLATE_EXTENSIONS) {
+    const candidate = join(getTemplateDir(), nameOrPath + extension);
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Load a template by built-in name, user template name, or file path
+ */
+export async function loadSummaryTemplate(nameOrPath: string): Promise<SummaryTemplate> {
+  const builtin = BUILTIN_TEMPLATES[nameOrPath];
+  if (builtin) {
+    return builtin;
+  }
+
+  const filePath = findTemplateFile(nameOrPath);
+  if (!filePath) {
+    throw new Error(
+      `Unknown summary template: ${nameOrPath} (expected ${Object.keys(BUILTIN_TEMPLATES).join(', ')}, a file in ${getTemplateDir()}, or a file path)`
+    );
+  }
+
+  const prompt = (await readFile(filePath, 'utf-8')).trim();
+  if (!prompt) {
+    throw new Error(`Summary template is empty: ${filePath}`);
+  }
+
+  const name = basename(filePath, extname(filePath));
+  return { name, title: titleFromName(name), prompt };
+}
+
+/**
+ * Replace {{variable}} placeholders; unknown or missing variables become "unknown"
+ */
+export function renderTemplate(prompt: string, variables: TemplateVariables): string {
+  return prompt.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => {
+    const value = variables[key as keyof TemplateVariables];
+    return value || 'unknown';
+  });
+}
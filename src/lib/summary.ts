@@ -1,75 +1,291 @@
+/**
+ * Transcript summaries
+ *
+ * Transcripts that fit the context budget are summarized in one request. Longer ones
+ * are map-reduced: split into overlapping sections on sentence boundaries, each
+ * section is summarized, and the section summaries are combined into the final summary.
+ * The final step runs once per summary template, see summary-templates.ts.
+ */
+
+import OpenAI from 'openai';
 import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import pLimit from 'p-limit';
 import { logger } from '../utils/logger';
-import { createOpenAIClient, OpenAIConfig } from './openai';
+import { createOpenAIClient, OpenAIConfig, DEFAULT_CHAT_MODEL } from './openai';
+import { withRetry, RequestPolicy } from './retry';
+import { languageName } from './languages';
+import { BUILTIN_TEMPLATES, DEFAULT_TEMPLATE, SummaryTemplate, TemplateVariables, renderTemplate } from './summary-templates';
 
 export interface SummaryOptions {
   language?: string;
+  outputLanguage?: string;  // Write the summaries in this language instead of the transcript's
   openaiConfig?: OpenAIConfig;
+  model?: string;
+  contextTokens?: number;   // Context window budget of the model (default 12000)
+  concurrency?: number;     // Section summaries requested at the same time (default 3)
+  templates?: SummaryTemplate[];  // One summary per template (default: the default template)
+  variables?: TemplateVariables;
+  policy?: RequestPolicy;   // Retries and timeout of each request
+}
+
+export interface SectionSummary {
+  index: number;
+  summary: string;
+  excerpt: string;          // Opening words of the section, to locate it in the transcript
 }
 
-const SUMMARY_SYSTEM_PROMPT = `You are a professional content summarizer. Create a well-structured summary following this format:
+export interface TemplateSummary {
+  template: string;
+  title: string;
+  summary: string;
+}
 
-OVERVIEW
-[2-3 sentences overview]
+export interface SummaryResult {
+  summary: string;            // Summary of the first template
+  summaries: TemplateSummary[];
+  sections: SectionSummary[]; // Empty when the transcript fit in one request
+}
 
-KEY POINTS
-- [Point 1]
-- [Point 2]
-- [Point 3]
+export const DEFAULT_CONTEXT_TOKENS = 12000;
 
-INSIGHTS
-[2-3 main insights]
+// Completion tokens reserved for the final summary and for each section summary
+export const SUMMARY_MAX_TOKENS = 1000;
+export const SECTION_MAX_TOKENS = 500;
 
-QUOTES
-[1-2 significant quotes]
+// Allowance for the system prompt and message framing, in every chat request
+export const PROMPT_OVERHEAD_TOKENS = 600;
 
-CONTEXT
-[Important background info]
+// Share of each section repeated at the start of the next one
+const SECTION_OVERLAP_RATIO = 0.05;
 
-Format with:
-- Section headers
-- Bullet points
-- Proper spacing
-- Concise but informative
-- Quote marks for quotes`;
+const EXCERPT_LENGTH = 80;
 
-export async function generateSummary(
+// Full-width characters are roughly one token each, other text roughly four characters per token
+const WIDE_CHARS = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7a3\uf900-\ufaff]/g;
+
+// Sentence ends for spaced and CJK text, and line breaks
+const SENTENCE_PATTERN = /[^.!?\u3002\uff01\uff1f\n]+(?:[.!?\u3002\uff01\uff1f]+["'\u201d\u300d]?|\n+|$)/g;
+
+const SECTION_SYSTEM_PROMPT = `You are summarizing one section of a longer transcript. The sections will later be combined into one summary.
+
+Write a dense summary of this section:
+- The topics discussed and the main arguments, in order
+- Key facts, names and numbers
+- At most two significant quotes, verbatim in quote marks
+
+Do not add an introduction or conclusion. Keep the language of the transcript.`;
+
+// Appended to the template prompt when combining section summaries
+const COMBINE_INSTRUCTIONS = `You are given the summaries of consecutive sections of one transcript, in order. Combine them into a single result for the whole transcript as described above. Sections overlap slightly, so do not repeat a point that appears in two neighbouring sections.`;
+
+/**
+ * Rough token count of a text, without a tokenizer
+ */
+export function estimateTokens(text: string): number {
+  const wide = text.match(WIDE_CHARS)?.length ?? 0;
+  return wide + Math.ceil((text.length - wide) / 4);
+}
+
+// Split text into sentences, hard-splitting any sentence longer than `maxTokens`
+function splitSentences(text: string, maxTokens: number): string[] {
+  const sentences: string[] = [];
+  for (const match of text.match(SENTENCE_PATTERN) ?? []) {
+    const sentence = match.trim();
+    if (!sentence) continue;
+    if (estimateTokens(sentence) <= maxTokens) {
+      sentences.push(sentence);
+      continue;
+    }
+    // No sentence boundary for too long (e.g. unpunctuated text): cut by length
+    const step = Math.max(1, Math.floor(sentence.length * maxTokens / estimateTokens(sentence)));
+    for (let i = 0; i < sentence.length; i += step) {
+      sentences.push(sentence.slice(i, i + step));
+    }
+  }
+  return sentences;
+}
+
+// Join sentences, without a space between full-width characters
+function joinSentences(sentences: string[]): string {
+  return sentences.reduce((text, sentence) => {
+    if (!text) return sentence;
+    const tight = /[\u3000-\u9fff\uff00-\uffef]$/.test(text) || /^[\u3000-\u9fff\uff00-\uffef]/.test(sentence);
+    return text + (tight ? '' : ' ') + sentence;
+  }, '');
+}
+
+/**
+ * Split a transcript into sections of at most `maxTokens` on sentence boundaries,
+ * each starting with the last sentences (about `overlapTokens`) of the previous one
+ */
+export function splitIntoSections(text: string, maxTokens: number, overlapTokens: number = 0): string[] {
+  const sentences = splitSentences(text, maxTokens);
+  const sections: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+  let fresh = 0;              // Sentences of the current section not carried over
+
+  for (const sentence of sentences) {
+    const tokens = estimateTokens(sentence);
+    if (fresh > 0 && currentTokens + tokens > maxTokens) {
+      sections.push(joinSentences(current));
+
+      const carried: string[] = [];
+      let carriedTokens = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        const sentenceTokens = estimateTokens(current[i]);
+        if (carriedTokens + sentenceTokens > overlapTokens || carriedTokens + sentenceTokens + tokens > maxTokens) break;
+        carried.unshift(current[i]);
+        carriedTokens += sentenceTokens;
+      }
+      current = carried;
+      currentTokens = carriedTokens;
+      fresh = 0;
+    }
+    current.push(sentence);
+    currentTokens += tokens;
+    fresh++;
+  }
+
+  if (fresh > 0) {
+    sections.push(joinSentences(current));
+  }
+  return sections;
+}
+
+async function complete(
+  client: OpenAI,
+  model: string,
+  systemPrompt: string,
+  content: string,
+  maxTokens: number,
+  policy: RequestPolicy = {}
+): Promise<string> {
+  const systemMessage: ChatCompletionMessageParam = {
+    role: "system",
+    content: systemPrompt
+  };
+
+  const userMessage: ChatCompletionMessageParam = {
+    role: "user",
+    content
+  };
+
+  const response = await withRetry('Summary', signal => client.chat.completions.create({
+    model,
+    messages: [systemMessage, userMessage],
+    temperature: 0.7,
+    max_tokens: maxTokens,
+  }, { signal }), policy);
+  policy.usage?.recordTokens('summary', response.usage);
+
+  const text = response.choices[0]?.message?.content;
+  if (!text) {
+    throw new Error('No summary generated');
+  }
+  return text;
+}
+
+/**
+ * Summarize a transcript, map-reducing over sections when it is too long for one request
+ */
+export async function summarizeTranscript(
   transcript: string,
   options: SummaryOptions = {}
-): Promise<string> {
-  const { openaiConfig } = options;
+): Promise<SummaryResult> {
+  const {
+    openaiConfig,
+    model = DEFAULT_CHAT_MODEL,
+    contextTokens = DEFAULT_CONTEXT_TOKENS,
+    concurrency = 3,
+    templates = [BUILTIN_TEMPLATES[DEFAULT_TEMPLATE]],
+    variables = {},
+    policy = {},
+    outputLanguage
+  } = options;
   const client = createOpenAIClient(openaiConfig);
 
+  if (templates.length === 0) {
+    throw new Error('No summary template given');
+  }
+
+  const inputBudget = contextTokens - SUMMARY_MAX_TOKENS - PROMPT_OVERHEAD_TOKENS;
+  if (inputBudget < 2 * SECTION_MAX_TOKENS) {
+    throw new Error(`Context budget too small for summaries: ${contextTokens} tokens`);
+  }
+
   try {
     logger.info('[Summary] Starting summary generation');
 
-    const systemMessage: ChatCompletionMessageParam = {
-      role: "system",
-      content: SUMMARY_SYSTEM_PROMPT
-    };
+    const limit = pLimit(concurrency);
+    const requestPolicy: RequestPolicy = { ...policy, limit };
+    const summarize = (input: string, combine: boolean): Promise<TemplateSummary[]> => Promise.all(
+      templates.map(async template => {
+        // The language instruction comes last so it overrides "the language of the transcript"
+        const prompt = renderTemplate(template.prompt, variables)
+          + (outputLanguage ? `\n\nWrite the result in ${languageName(outputLanguage)}, whatever the language of the transcript.` : '');
+        const summary = await complete(
+          client,
+          model,
+          combine ? `${prompt}\n\n${COMBINE_INSTRUCTIONS}` : prompt,
+          input,
+          SUMMARY_MAX_TOKENS,
+          requestPolicy
+        );
+        logger.info(`[Summary] Generated ${template.name} summary`);
+        return { template: template.name, title: template.title, summary };
+      })
+    );
 
-    const userMessage: ChatCompletionMessageParam = {
-      role: "user",
-      content: transcript
-    };
+    if (estimateTokens(transcript) <= inputBudget) {
+      const summaries = await summarize(transcript, false);
+      logger.info('[Summary] Successfully generated summary');
+      return { summary: summaries[0].summary, summaries, sections: [] };
+    }
 
-    const response = await client.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: [systemMessage, userMessage],
-      temperature: 0.7,
-      max_tokens: 1000,
-    });
+    // Map: summarize each section
+    const sectionTexts = splitIntoSections(transcript, inputBudget, Math.floor(inputBudget * SECTION_OVERLAP_RATIO));
+    logger.info(`[Summary] Transcript split into ${sectionTexts.length} sections`);
 
-    const summary = response.choices[0]?.message?.content;
+    const sections = await Promise.all(
+      sectionTexts.map(async (text, index): Promise<SectionSummary> => {
+        const summary = await complete(
+          client,
+          model,
+          SECTION_SYSTEM_PROMPT,
+          `Section ${index + 1} of ${sectionTexts.length}:\n\n${text}`,
+          SECTION_MAX_TOKENS,
+          requestPolicy
+        );
+        logger.info(`[Summary] Section ${index + 1}/${sectionTexts.length} summarized`);
+        return { index: index + 1, summary, excerpt: text.slice(0, EXCERPT_LENGTH) };
+      })
+    );
 
-    if (!summary) {
-      throw new Error('No summary generated');
+    // Reduce: combine the section summaries, in rounds if they still do not fit
+    let partials = sections.map(section => `Section ${section.index}:\n${section.summary}`);
+    while (estimateTokens(partials.join('\n\n')) > inputBudget) {
+      const groups = splitIntoSections(partials.join('\n\n'), inputBudget);
+      if (groups.length >= partials.length) break;
+      logger.info(`[Summary] Condensing section summaries in ${groups.length} groups`);
+      partials = await Promise.all(
+        groups.map(group => complete(client, model, SECTION_SYSTEM_PROMPT, group, SECTION_MAX_TOKENS, requestPolicy))
+      );
     }
 
+    const summaries = await summarize(partials.join('\n\n'), true);
     logger.info('[Summary] Successfully generated summary');
-    return summary;
+    return { summary: summaries[0].summary, summaries, sections };
   } catch (error) {
     logger.error('[Summary] Error:', error);
     throw error;
   }
 }
+
+export async function generateSummary(
+  transcript: string,
+  options: SummaryOptions = {}
+): Promise<string> {
+  const { summary } = await summarizeTranscript(transcript, options);
+  return summary;
+}
@@ -0,0 +1,143 @@
+/**
+ * Temp sessions: one directory per transcription for the input copy and its chunks
+ *
+ * Location: $PT_TEMP_DIR, or pt/ in the OS temp directory. Each session records the
+ * process that created it, so sessions left behind by a crash can be told apart from
+ * the ones still in use and removed with `pt cleanup`.
+ */
+
+import { existsSync, rmSync } from 'fs';
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+
+export interface TempSession {
+  id: string;
+  dir: string;
+  pid?: number;           // Process that created it, unknown for sessions of older versions
+  createdAt: Date;
+  size: number;           // bytes on disk
+  orphaned: boolean;      // Its process is gone
+}
+
+interface SessionInfo {
+  pid: number;
+  createdAt: string;
+}
+
+const SESSION_FILE = 'session.json';
+
+// A session without a session file this old is not one still being created
+const CREATE_GRACE_MS = 60 * 1000;
+
+// Session directories are named by UUID, nothing else in a temp directory is touched
+const SESSION_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Sessions of transcriptions in progress in this process, see cleanupTempDirs
+const activeTempDirs = new Set<string>();
+
+export function getTempDir(): string {
+  if (process.env.PT_TEMP_DIR) {
+    return process.env.PT_TEMP_DIR;
+  }
+  return join(tmpdir(), 'pt');
+}
+
+/**
+ * Create a session directory owned by this process
+ */
+export async function createTempSession(baseDir: string = getTempDir()): Promise<string> {
+  const dir = join(baseDir, uuidv4());
+  await mkdir(dir, { recursive: true });
+  activeTempDirs.add(dir);
+
+  const info: SessionInfo = { pid: process.pid, createdAt: new Date().toISOString() };
+  await writeFile(join(dir, SESSION_FILE), JSON.stringify(info), 'utf-8');
+  logger.info(`[Temp] Created temp directory: ${dir}`);
+  return dir;
+}
+
+export function removeTempSession(dir: string): void {
+  activeTempDirs.delete(dir);
+  try {
+    if (existsSync(dir)) {
+      rmSync(dir, { recursive: true, force: true });
+      logger.info(`[Temp] Cleaned up temp directory: ${dir}`);
+    }
+  } catch (error) {
+    logger.warn('[Temp] Error during cleanup:', error);
+  }
+}
+
+/**
+ * Remove the sessions of transcriptions still in progress. Synchronous so it can
+ * run in signal handlers, where the finally blocks of the running transcriptions never will.
+ */
+export function cleanupTempDirs(): void {
+  for (const dir of [...activeTempDirs]) {
+    removeTempSession(dir);
+  }
+}
+
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+async function directorySize(dir: string): Promise<number> {
+  let size = 0;
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name);
+    size += entry.isDirectory() ? await directorySize(path) : (await stat(path)).size;
+  }
+  return size;
+}
+
+/**
+ * Sessions in a temp directory, oldest first. Sessions without a session file were
+ * created by older versions, which never outlive their run, so they count as orphaned.
+ */
+export async function listTempSessions(baseDir: string = getTempDir()): Promise<TempSession[]> {
+  if (!existsSync(baseDir)) {
+    return [];
+  }
+
+  const sessions: TempSession[] = [];
+  for (const entry of await readdir(baseDir, { withFileTypes: true })) {
+    if (!entry.isDirectory() || !SESSION_ID.test(entry.name)) continue;
+
+    const dir = join(baseDir, entry.name);
+    let info: SessionInfo | undefined;
+    try {
+      info = JSON.parse(await readFile(join(dir, SESSION_FILE), 'utf-8')) as SessionInfo;
+    } catch {
+      // Older version, or the session is being created
+    }
+    const createdAt = info ? new Date(info.createdAt) : (await stat(dir)).mtime;
+    const orphaned = info
+      ? !isRunning(info.pid)
+      : Date.now() - createdAt.getTime() > CREATE_GRACE_MS;
+
+    sessions.push({
+      id: entry.name,
+      dir,
+      pid: info?.pid,
+      createdAt,
+      size: await directorySize(dir),
+      orphaned: orphaned && !activeTempDirs.has(dir)
+    });
+  }
+
+  return sessions.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+export async function removeOrphanedSession(session: TempSession): Promise<void> {
+  await rm(session.dir, { recursive: true, force: true });
+}
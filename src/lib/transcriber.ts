@@ -0,0 +1,173 @@
+/**
+ * Library entry point for Node services that embed pt
+ *
+ * A Transcriber holds the settings shared by its jobs, including the provider and
+ * the limit on concurrent chunk requests across all of them. transcribe() returns a
+ * job whose chunks can be consumed as they finish, in completion or in audio order,
+ * and whose result resolves to the structured transcription.
+ *
+ *   const transcriber = new Transcriber({ openaiConfig: { apiKey }, outputFormat: 'srt' });
+ *   const job = transcriber.transcribe('episode.mp3', { signal });
+ *   for await (const chunk of job.chunks('ordered')) console.log(chunk.text);
+ *   const { text, entries, failures } = await job.result;
+ */
+
+import { resolve } from 'path';
+import pLimit, { type LimitFunction } from 'p-limit';
+import { DownloadOptions } from './audio-downloader';
+import { createTranscriptionProvider, TranscriptionProvider } from './providers';
+import { transcribeAudio, transcribeAudioFile, transcribeAudioUrl, TranscriptionOptions } from './transcription';
+import { TranscribedChunk, TranscriptionResult } from './types';
+
+// completion: chunks as they finish (cached chunks first), ordered: chunks in audio order
+export type ChunkOrder = 'completion' | 'ordered';
+
+// File path, http(s) URL, or the audio data itself
+export type TranscriberInput = string | Buffer;
+
+// Settings of one run rather than of the shared Transcriber
+type RunSettings = 'signal' | 'source' | 'onProgress' | 'onChunk' | 'limit';
+
+export interface TranscriberOptions extends Omit<TranscriptionOptions, RunSettings> {
+  provider?: TranscriptionProvider;   // Defaults to the OpenAI API with whisper-1
+  concurrency?: number;   // Chunk requests at the same time across all jobs (default 3)
+}
+
+export interface TranscribeJobOptions extends Omit<TranscriptionOptions, 'limit' | 'provider' | 'concurrency'> {
+  download?: DownloadOptions;   // URL inputs
+  extension?: string;     // Buffer inputs: format hint such as "mp3" (default: detected from the data)
+}
+
+type JobRunner = (signal: AbortSignal, report: (chunk: TranscribedChunk) => void) => Promise<TranscriptionResult>;
+
+/**
+ * One transcription started by Transcriber.transcribe
+ */
+export class TranscriptionJob implements AsyncIterable<TranscribedChunk> {
+  readonly result: Promise<TranscriptionResult>;
+  readonly signal: AbortSignal;   // Aborted by abort() or by the caller's signal
+  private controller = new AbortController();
+  private received: TranscribedChunk[] = [];
+  private byIndex = new Map<number, TranscribedChunk>();
+  private waiters: (() => void)[] = [];
+  private settled = false;
+  private failed = false;
+  private error: unknown;
+
+  constructor(run: JobRunner, signal?: AbortSignal) {
+    this.signal = signal ? AbortSignal.any([signal, this.controller.signal]) : this.controller.signal;
+
+    this.result = Promise.resolve()
+      .then(() => run(this.signal, chunk => this.add(chunk)))
+      .then(
+        result => {
+          this.finish();
+          return result;
+        },
+        error => {
+          this.failed = true;
+          this.error = error;
+          this.finish();
+          throw error;
+        }
+      );
+    // Errors reach the caller through `result` and the chunk iterators
+    this.result.catch(() => {});
+  }
+
+  /**
+   * Stop the transcription: running ffmpeg processes are killed, requests in
+   * flight are aborted and pending chunks are not sent
+   */
+  abort(reason: unknown = new Error('Transcription aborted')): void {
+    this.controller.abort(reason);
+  }
+
+  /**
+   * Chunks as they finish or in audio order. Chunks reported before iteration
+   * starts are included, and the iterator throws when the transcription fails.
+   */
+  async *chunks(order: ChunkOrder = 'completion'): AsyncGenerator<TranscribedChunk> {
+    let position = 0;   // Next entry of `received`, or next chunk index when ordered
+    while (true) {
+      const next = order === 'ordered' ? this.byIndex.get(position) : this.received[position];
+      if (next) {
+        position++;
+        yield next;
+        continue;
+      }
+      if (this.settled) {
+        if (this.failed) throw this.error;
+        return;
+      }
+      await new Promise<void>(resolvePromise => this.waiters.push(resolvePromise));
+    }
+  }
+
+  [Symbol.asyncIterator](): AsyncGenerator<TranscribedChunk> {
+    return this.chunks();
+  }
+
+  private add(chunk: TranscribedChunk): void {
+    this.received.push(chunk);
+    this.byIndex.set(chunk.index, chunk);
+    this.wake();
+  }
+
+  private finish(): void {
+    this.settled = true;
+    this.wake();
+  }
+
+  private wake(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(wake => wake());
+  }
+}
+
+/**
+ * Transcribes files, URLs and buffers with shared settings
+ */
+export class Transcriber {
+  readonly provider: TranscriptionProvider;
+  private limit: LimitFunction;
+  private options: TranscriberOptions;
+
+  constructor(options: TranscriberOptions = {}) {
+    this.options = options;
+    this.provider = options.provider ?? createTranscriptionProvider({ openaiConfig: options.openaiConfig });
+    const concurrency = options.concurrency ?? 3;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`Concurrency must be a positive integer: ${concurrency}`);
+    }
+    this.limit = pLimit(Math.min(concurrency, this.provider.maxConcurrency ?? Infinity));
+  }
+
+  transcribe(input: TranscriberInput, options: TranscribeJobOptions = {}): TranscriptionJob {
+    const { download, extension, signal, onChunk, ...runOptions } = options;
+
+    return new TranscriptionJob((jobSignal, report) => {
+      const settings: TranscriptionOptions = {
+        ...this.options,
+        ...runOptions,
+        provider: this.provider,
+        limit: this.limit,
+        signal: jobSignal,
+        onChunk: chunk => {
+          report(chunk);
+          onChunk?.(chunk);
+        }
+      };
+
+      if (Buffer.isBuffer(input)) {
+        return transcribeAudio(input, extension ?? '', settings);
+      }
+      if (input.startsWith('http://') || input.startsWith('https://')) {
+        return transcribeAudioUrl(input, { ...settings, download, source: input });
+      }
+      const filePath = resolve(input);
+      return transcribeAudioFile(filePath, { ...settings, source: filePath });
+    }, signal);
+  }
+}
@@ -1,39 +1,89 @@
 import OpenAI from 'openai';
-import pLimit from 'p-limit';
+import pLimit, { LimitFunction } from 'p-limit';
 import { logger } from '../utils/logger';
-import { join, extname } from 'path';
-import { existsSync, mkdirSync, writeFileSync, readFileSync } from 'fs';
-import { execSync } from 'child_process';
-import { v4 as uuidv4 } from 'uuid';
-import { createOpenAIClient, OpenAIConfig } from './openai';
-import { WhisperVerboseResponse, SrtEntry, TranscriptionResult } from './types';
-import { convertSegmentsToSrtEntries, entriesToSrtString } from './srt';
-
-// Maximum concurrent API requests
-const MAX_CONCURRENCY = 3;
+import { join } from 'path';
+import { writeFileSync } from 'fs';
+import { stat } from 'fs/promises';
+import { createOpenAIClient, OpenAIConfig, DEFAULT_CHAT_MODEL } from './openai';
+import { TranscriptionResult, ChunkBoundary, ChunkResult, ChunkFailure, TranscribedChunk } from './types';
+import { attachWords, collectWords, convertSegmentsToSrtEntries, entriesToSrtString } from './srt';
+import { mergeChunkTexts, mergeChunkEntries } from './merge';
+import { layoutEntries, LayoutOptions } from './subtitles/layout';
+import { ChunkCache, CacheMode } from './cache';
+import {
+  SilenceInterval,
+  SplitStrategy,
+  detectSilences,
+  planChunks,
+  probeAudioByteRate,
+  probeDuration,
+  probeStartTime,
+  splitChunk
+} from './splitter';
+import { createTranscriptionProvider, TranscriptionProvider } from './providers';
+import { downloadToFile, DownloadOptions } from './audio-downloader';
+import { detectAudioFormat, FormatHints } from './audio';
+import { withRetry, RequestPolicy } from './retry';
+import { formatBytes, formatDuration } from '../utils/format';
+import { createTempSession, removeTempSession } from './temp';
+import { UsageTracker } from './usage';
+import {
+  DEFAULT_UPLOAD_LIMIT,
+  PreprocessOptions,
+  describePreprocess,
+  fitChunkDuration,
+  preprocessByteRate,
+  preprocessExtension,
+  shrinkChunkDuration,
+  transcodeChunk
+} from './preprocess';
+
+// Concurrent API requests unless configured otherwise
+const DEFAULT_CONCURRENCY = 3;
+
+// Times the chunks are planned and cut before giving up on the upload limit
+const MAX_SPLIT_ATTEMPTS = 3;
 
 export interface TranscriptionProgress {
-  type: 'progress' | 'partial' | 'complete' | 'error';
+  type: 'progress' | 'partial' | 'complete' | 'error' | 'download' | 'downloaded';
   message?: string;
   transcript?: string;
   srt?: string;
-  progress?: { current: number; total: number };
+  progress?: { current: number; total: number };   // For downloads: bytes, total 0 when unknown
   error?: string;
 }
 
 export interface TranscriptionOptions {
   language?: string;
   chunkDuration?: number;
+  splitStrategy?: SplitStrategy;
+  overlap?: number;       // Seconds of audio shared by consecutive chunks
+  layout?: LayoutOptions; // Re-segment subtitle cues to these limits
   openaiConfig?: OpenAIConfig;
+  chatModel?: string;     // Model used to format transcripts
+  concurrency?: number;   // Chunks transcribed at the same time (capped by the provider)
+  limit?: LimitFunction;  // Shared limiter instead of `concurrency`, for several transcriptions at once
+  provider?: TranscriptionProvider;   // Defaults to the OpenAI API with whisper-1
   outputFormat?: 'text' | 'srt';
+  wordTimestamps?: boolean;   // Word timing on the subtitle entries (srt output only)
+  formatText?: boolean;   // srt output: also format the transcript text with the chat model, as text output does
+  preprocess?: PreprocessOptions; // Transcode chunks instead of cutting them with stream copy
+  maxUploadBytes?: number;    // Largest chunk file sent (default 25 MB, no limit for local providers)
+  cache?: CacheMode;
+  policy?: RequestPolicy; // Retries and timeout of each API request
+  continueOnError?: boolean;  // Mark chunks that still fail as gaps instead of failing the run
+  source?: string;        // Original input (path or URL), recorded in the cache
+  tempDir?: string;       // Parent of the session directory (default: see getTempDir)
+  signal?: AbortSignal;   // Cancels the transcription: running ffmpeg and requests are stopped
   onProgress?: (progress: TranscriptionProgress) => void;
+  onChunk?: (chunk: TranscribedChunk) => void;  // Each chunk as it finishes, cached chunks first
 }
 
-// Result from transcribing a single chunk
-interface ChunkResult {
-  index: number;
-  text: string;
-  srtEntries?: SrtEntry[];
+// A chunk cut from the source, with the real offset where its audio starts
+interface SplitChunk {
+  boundary: ChunkBoundary;
+  path: string;
+  offset: number;         // seconds
 }
 
 // Check if language is Chinese (handles both 'zh' and 'chinese' from Whisper)
@@ -43,60 +93,58 @@ function isChinese(lang: string): boolean {
 
 async function formatWithAI(
   client: OpenAI,
+  model: string,
   text: string,
-  language: string = 'auto'
+  language: string = 'auto',
+  policy: RequestPolicy = {}
 ): Promise<string> {
-  try {
-    let systemPrompt: string;
-    if (isChinese(language)) {
-      systemPrompt = `你是一个转录文本格式化助手。请格式化给定的中文转录文本，使其更易读：
+  let systemPrompt: string;
+  if (isChinese(language)) {
+    systemPrompt = `你是一个转录文本格式化助手。请格式化给定的中文转录文本，使其更易读：
 1. 添加适当的标点符号
 2. 保持原始用词和结构
 3. 保留所有内容，不要删除或总结任何内容
 4. 保持中文，不要翻译
 
 只做最小的改动来提高可读性，同时保持原意和结构不变。`;
-    } else if (language === 'en') {
-      systemPrompt = `You are a transcript formatter. Format the given English transcript to make it more readable by:
+  } else if (language === 'en') {
+    systemPrompt = `You are a transcript formatter. Format the given English transcript to make it more readable by:
 1. Adding basic punctuation and capitalization
 2. Keeping the original wording and structure
 3. Preserving all content without removing or summarizing anything
 4. Keep the original language of the transcript, do not translate
 
 Make minimal changes to improve readability while keeping the original meaning and structure intact.`;
-    } else {
-      systemPrompt = `You are a transcript formatter. Format the given transcript to make it more readable by:
+  } else {
+    systemPrompt = `You are a transcript formatter. Format the given transcript to make it more readable by:
 1. Adding basic punctuation and capitalization
 2. Keeping the original wording and structure
 3. Preserving all content without removing or summarizing anything
 4. Keep the original language of the transcript, do not translate
 
 Make minimal changes to improve readability while keeping the original meaning and structure intact.`;
-    }
-
-    const userPrompt = isChinese(language)
-      ? `请格式化以下转录文本：\n\n${text}`
-      : `Please format this transcript:\n\n${text}`;
+  }
 
-    const response = await client.chat.completions.create({
-      model: "gpt-3.5-turbo",
-      messages: [
-        {
-          role: "system",
-          content: systemPrompt
-        },
-        {
-          role: 'user',
-          content: userPrompt
-        }
-      ]
-    });
+  const userPrompt = isChinese(language)
+    ? `请格式化以下转录文本：\n\n${text}`
+    : `Please format this transcript:\n\n${text}`;
+
+  const response = await withRetry('Formatting', signal => client.chat.completions.create({
+    model,
+    messages: [
+      {
+        role: "system",
+        content: systemPrompt
+      },
+      {
+        role: 'user',
+        content: userPrompt
+      }
+    ]
+  }, { signal }), policy);
+  policy.usage?.recordTokens('formatting', response.usage);
 
-    return response.choices[0]?.message?.content || text;
-  } catch (error) {
-    logger.error('AI formatting error:', error);
-    return text;
-  }
+  return response.choices[0]?.message?.content || text;
 }
 
 // Get prompt based on detected language
@@ -111,59 +159,226 @@ function getLanguagePrompt(lang: string): string | undefined {
 async function transcribeFromPath(
   inputPath: string,
   tempDir: string,
-  options: TranscriptionOptions = {}
+  options: TranscriptionOptions = {},
+  hints: FormatHints = { url: inputPath }
 ): Promise<TranscriptionResult> {
   const {
     language = 'auto',
     chunkDuration = 300,
+    splitStrategy = 'silence',
+    overlap = 0,
+    layout,
     openaiConfig,
+    chatModel = DEFAULT_CHAT_MODEL,
+    concurrency: requestedConcurrency = DEFAULT_CONCURRENCY,
+    provider = createTranscriptionProvider({ openaiConfig }),
     outputFormat = 'text',
-    onProgress
+    wordTimestamps = false,
+    formatText = false,
+    preprocess,
+    maxUploadBytes,
+    cache: cacheMode = 'write',
+    policy = {},
+    continueOnError = false,
+    source,
+    signal,
+    onProgress,
+    onChunk
   } = options;
 
-  const client = createOpenAIClient(openaiConfig);
-  const extension = extname(inputPath);
+  // Created on first use, local providers without formatting need no API key
+  let client: OpenAI | undefined;
+
+  // Detect the real format up front, chunks are cut with stream copy into a matching container
+  // unless they are transcoded
+  const format = await detectAudioFormat(inputPath, hints, signal);
+  const { size } = await stat(inputPath);
   const needSrt = outputFormat === 'srt';
+  if (wordTimestamps && !needSrt) {
+    throw new Error('Word timestamps need the srt output format');
+  }
   const isAutoMode = language === 'auto';
+  const concurrency = Math.max(1, Math.min(requestedConcurrency, provider.maxConcurrency ?? Infinity));
 
   // Get audio duration using ffprobe
-  const durationCmd = `ffprobe -i "${inputPath}" -show_entries format=duration -v quiet -of csv="p=0"`;
-  const totalDuration = parseFloat(execSync(durationCmd).toString());
-  const totalChunks = Math.ceil(totalDuration / chunkDuration);
+  const totalDuration = await probeDuration(inputPath, signal);
+
+  // Keep chunk files under the upload limit, judged by the bitrate they are cut at
+  const uploadLimit = maxUploadBytes ?? (provider.local ? Infinity : DEFAULT_UPLOAD_LIMIT);
+  const byteRate = preprocess
+    ? preprocessByteRate(preprocess)
+    : await probeAudioByteRate(inputPath, signal) ?? size / totalDuration;
+  let plannedDuration = fitChunkDuration(chunkDuration, byteRate, uploadLimit, overlap);
+  if (plannedDuration < chunkDuration) {
+    logger.info(`[Transcription] Chunks shortened to ${plannedDuration}s to stay under the ${formatBytes(uploadLimit)} upload limit`);
+  }
+
+  // Step 0: Look up chunks finished by an earlier run
+  const cache = cacheMode === 'off'
+    ? null
+    : await ChunkCache.open(
+        inputPath,
+        {
+          language,
+          model: `${provider.name}:${provider.model}`,
+          outputFormat,
+          wordTimestamps,
+          formatText: needSrt && formatText,
+          // Text output is always formatted, srt output with formatText; local providers never are
+          chatModel: !provider.local && (!needSrt || formatText) ? chatModel : undefined,
+          preprocess: preprocess && describePreprocess(preprocess)
+        },
+        cacheMode,
+        source
+      );
+
+  // Pauses are detected once, shorter chunks after a split attempt cut at the same ones
+  let silences: SilenceInterval[] | undefined;
+  if (splitStrategy === 'silence') {
+    onProgress?.({
+      type: 'progress',
+      message: 'Detecting pauses for chunk boundaries...'
+    });
+    silences = await detectSilences(inputPath, totalDuration, { signal });
+  }
+  const sourceStartTime = await probeStartTime(inputPath, signal);
+  const extension = preprocess ? `.${preprocessExtension(preprocess)}` : `.${format.extension}`;
+
+  // Step 1: Plan the chunks and split the ones not cached. A chunk that still comes out
+  // over the upload limit (variable bitrate) makes the chunks shorter, and they are cut again.
+  let boundaries: ChunkBoundary[] = [];
+  let cachedResults: ChunkResult[] = [];
+  let splitChunks: SplitChunk[] = [];
+  for (let attempt = 1; ; attempt++) {
+    boundaries = await planChunks(inputPath, totalDuration, {
+      strategy: splitStrategy,
+      chunkDuration: plannedDuration,
+      overlap,
+      silences,
+      signal
+    });
+
+    cachedResults = [];
+    const pending: ChunkBoundary[] = [];
+    for (const boundary of boundaries) {
+      const cached = cache ? await cache.get(boundary) : null;
+      if (cached) {
+        cachedResults.push(cached);
+      } else {
+        pending.push(boundary);
+      }
+    }
+
+    onProgress?.({
+      type: 'progress',
+      message: `Splitting audio into ${pending.length} chunks...`
+    });
+
+    splitChunks = [];
+    let largest = 0;
+    for (const boundary of pending) {
+      const outputPath = join(tempDir, `chunk-${boundary.index + 1}${extension}`);
+      const offset = preprocess
+        ? await transcodeChunk(inputPath, boundary, outputPath, preprocess, signal)
+        : await splitChunk(inputPath, boundary, outputPath, sourceStartTime, signal);
+      splitChunks.push({ boundary, path: outputPath, offset });
+      largest = Math.max(largest, (await stat(outputPath)).size);
+      if (largest > uploadLimit) break;
+    }
+
+    if (largest <= uploadLimit) break;
+    if (attempt === MAX_SPLIT_ATTEMPTS) {
+      throw new Error(`A chunk is ${formatBytes(largest)}, over the ${formatBytes(uploadLimit)} upload limit, even at ${plannedDuration}s`);
+    }
+    plannedDuration = shrinkChunkDuration(plannedDuration, largest, uploadLimit, overlap);
+    logger.info(`[Transcription] A chunk is ${formatBytes(largest)}, over the ${formatBytes(uploadLimit)} upload limit, splitting again into ${plannedDuration}s chunks`);
+  }
+  const totalChunks = boundaries.length;
 
   logger.info('[Transcription] Audio details:', {
     duration: totalDuration,
     chunks: totalChunks,
+    chunkDuration: plannedDuration,
+    splitStrategy,
+    overlap,
     outputFormat: outputFormat,
-    concurrency: MAX_CONCURRENCY
+    format: `${format.container}/${format.codec ?? 'unknown'}`,
+    preprocess: preprocess ? describePreprocess(preprocess) : 'none (stream copy)',
+    uploadLimit: Number.isFinite(uploadLimit) ? formatBytes(uploadLimit) : 'none',
+    provider: provider.name,
+    model: provider.model,
+    concurrency
   });
 
-  // Step 1: Split all chunks first
-  onProgress?.({
-    type: 'progress',
-    message: `Splitting audio into ${totalChunks} chunks...`
+  const failures: ChunkFailure[] = [];
+  const reportChunk = (result: ChunkResult, cached: boolean) => onChunk?.({
+    index: result.index,
+    total: totalChunks,
+    start: result.offset,
+    end: result.end,
+    text: result.text,
+    entries: result.srtEntries,
+    language: result.language,
+    cached,
+    failure: failures.find(failure => failure.index === result.index)
   });
+  cachedResults.forEach(result => reportChunk(result, true));
 
-  const chunkPaths: string[] = [];
-  for (let i = 0; i < totalChunks; i++) {
-    const start = i * chunkDuration;
-    const outputPath = join(tempDir, `chunk-${i + 1}${extension}`);
-    const splitCmd = `ffmpeg -i "${inputPath}" -ss ${start} -t ${chunkDuration} -c copy "${outputPath}" -y 2>/dev/null`;
-    execSync(splitCmd);
-    chunkPaths.push(outputPath);
+  if (cachedResults.length > 0) {
+    logger.info(`[Transcription] Reusing ${cachedResults.length}/${totalChunks} cached chunks`);
+    onProgress?.({
+      type: 'progress',
+      message: `Reusing ${cachedResults.length}/${totalChunks} cached chunks`
+    });
   }
 
-  logger.info(`[Transcription] Split into ${chunkPaths.length} chunks`);
+  logger.info(`[Transcription] Split into ${splitChunks.length} chunks`);
 
   // Step 2: Transcribe chunks in parallel with concurrency limit
-  const limit = pLimit(MAX_CONCURRENCY);
-  let completedCount = 0;
-
-  const transcribeChunk = async (chunkPath: string, index: number): Promise<ChunkResult> => {
-    logger.info(`[Transcription] Starting chunk ${index + 1}/${totalChunks}`);
+  const limit = options.limit ?? pLimit(concurrency);
+  const usage = policy.usage ?? new UsageTracker();
+  // A local model takes as long as the chunk needs, it is not cut off and run again
+  const requestPolicy: RequestPolicy = {
+    ...policy,
+    limit,
+    usage,
+    timeout: provider.local ? 0 : policy.timeout,
+    signal: signal ?? policy.signal
+  };
+  let completedCount = cachedResults.length;
+
+  // Format with AI (use generic prompt for auto mode)
+  // Local providers keep the text on this machine, so it is not sent for formatting
+  // When formatting still fails the raw transcription is kept and reported
+  const formatChunk = async (index: number, offset: number, end: number, text: string): Promise<string> => {
+    if (provider.local) return text;
+    client ??= createOpenAIClient(openaiConfig);
+    try {
+      return await formatWithAI(client, chatModel, text, language, requestPolicy);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`[Transcription] Formatting chunk ${index + 1} failed, keeping unformatted text: ${message}`);
+      failures.push({ index, start: offset, end, stage: 'formatting', error: message });
+      return text;
+    }
+  };
 
-    const chunkBuffer = readFileSync(chunkPath);
-    const chunkFile = new File([chunkBuffer], `chunk-${index}${extension}`);
+  // Seconds each transcribed chunk took from its first request, for the chunk reports
+  const elapsed = new Map<number, number>();
+
+  const transcribeChunk = async (chunk: SplitChunk): Promise<ChunkResult> => {
+    const { path: chunkPath, offset } = chunk;
+    const { index } = chunk.boundary;
+    const end = chunk.boundary.start + chunk.boundary.duration;
+    // Requests wait for a slot of the limiter, the chunk starts with the first one sent
+    let started: number | undefined;
+    const start = () => {
+      if (started === undefined) {
+        started = Date.now();
+        logger.info(`[Transcription] Starting chunk ${index + 1}/${totalChunks}`);
+      }
+    };
 
     // Determine language and prompt settings
     // auto mode: no language, no prompt - let Whisper decide
@@ -173,27 +388,31 @@ async function transcribeFromPath(
 
     if (needSrt) {
       // Use verbose_json for SRT output to get timestamps
-      const response = await client.audio.transcriptions.create({
-        model: 'whisper-1',
-        file: chunkFile,
-        response_format: "verbose_json",
-        language: langParam,
-        prompt: promptParam
-      }) as unknown as WhisperVerboseResponse;
-
-      // Convert segments to SRT entries with time offset
-      // Note: globalSrtIndex will be recalculated after sorting
-      const chunkEntries = convertSegmentsToSrtEntries(
-        response.segments,
-        index,
-        chunkDuration,
-        1 // Temporary index, will be renumbered after sorting
-      );
+      const response = await withRetry(`Chunk ${index + 1}`, signal => {
+        start();
+        return provider.transcribeVerbose({
+          filePath: chunkPath,
+          language: langParam,
+          prompt: promptParam,
+          wordTimestamps,
+          signal
+        });
+      }, requestPolicy);
+
+      // Convert segments to SRT entries, offset by where the chunk really starts
+      // Note: the indexes start at 1 in every chunk and are renumbered after sorting
+      const chunkEntries = convertSegmentsToSrtEntries(response.segments, {
+        offset,
+        words: wordTimestamps ? response.words ?? [] : undefined
+      });
+      // The cues keep the words as transcribed, only the transcript text is formatted
+      const text = formatText ? await formatChunk(index, offset, end, response.text) : response.text;
 
+      elapsed.set(index, (Date.now() - (started ?? Date.now())) / 1000);
       completedCount++;
       onProgress?.({
         type: 'partial',
-        transcript: response.text,
+        transcript: text,
         progress: {
           current: completedCount,
           total: totalChunks
@@ -202,24 +421,27 @@ async function transcribeFromPath(
 
       return {
         index,
-        text: response.text,
-        srtEntries: chunkEntries
+        offset,
+        end,
+        text,
+        srtEntries: chunkEntries,
+        language: response.language || undefined
       };
     } else {
       // Text-only flow
-      const response = await client.audio.transcriptions.create({
-        model: 'whisper-1',
-        file: chunkFile,
-        response_format: "text",
-        language: langParam,
-        prompt: promptParam
-      });
-
-      const transcription = typeof response === 'string' ? response : JSON.stringify(response);
-
-      // Format with AI (use generic prompt for auto mode)
-      const formattedText = await formatWithAI(client, transcription, language);
-
+      const transcription = await withRetry(`Chunk ${index + 1}`, signal => {
+        start();
+        return provider.transcribeText({
+          filePath: chunkPath,
+          language: langParam,
+          prompt: promptParam,
+          signal
+        });
+      }, requestPolicy);
+
+      const formattedText = await formatChunk(index, offset, end, transcription);
+
+      elapsed.set(index, (Date.now() - (started ?? Date.now())) / 1000);
       completedCount++;
       onProgress?.({
         type: 'partial',
@@ -232,77 +454,212 @@ async function transcribeFromPath(
 
       return {
         index,
+        offset,
+        end,
         text: formattedText
       };
     }
   };
 
-  // Execute all transcriptions with concurrency control
-  const results = await Promise.all(
-    chunkPaths.map((path, i) => limit(() => transcribeChunk(path, i)))
+  // A chunk that still failed after retries, kept as a marked gap so the rest of the run survives
+  const gapResult = (chunk: SplitChunk, error: unknown): ChunkResult => {
+    const { index } = chunk.boundary;
+    const end = chunk.boundary.start + chunk.boundary.duration;
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`[Transcription] Chunk ${index + 1} failed, marking a gap: ${message}`);
+    failures.push({ index, start: chunk.offset, end, stage: 'transcription', error: message });
+
+    completedCount++;
+    onProgress?.({
+      type: 'partial',
+      progress: {
+        current: completedCount,
+        total: totalChunks
+      }
+    });
+
+    const marker = `[Transcription failed: ${formatDuration(chunk.offset)} - ${formatDuration(end)}]`;
+    return {
+      index,
+      offset: chunk.offset,
+      end,
+      text: marker,
+      srtEntries: needSrt ? [{ index: 1, startTime: chunk.offset, endTime: end, text: marker }] : undefined
+    };
+  };
+
+  // Execute all transcriptions, each request under the concurrency limit, storing each result as it finishes
+  // Gaps and unformatted chunks are not cached, so --resume retries them
+  const transcribed = await Promise.all(
+    splitChunks.map(async chunk => {
+      let result: ChunkResult;
+      try {
+        result = await transcribeChunk(chunk);
+      } catch (error) {
+        if (!continueOnError || signal?.aborted) throw error;
+        result = gapResult(chunk, error);
+        reportChunk(result, false);
+        return result;
+      }
+      if (!failures.some(failure => failure.index === result.index)) {
+        await cache?.set(chunk.boundary, result);
+      }
+      reportChunk(result, false);
+      return result;
+    })
   );
+  const results = [...cachedResults, ...transcribed];
 
-  // Step 3: Sort results by index and merge
+  // Step 3: Sort results by index and merge, removing speech repeated in overlaps
   results.sort((a, b) => a.index - b.index);
 
+  const cachedIndexes = new Set(cachedResults.map(cached => cached.index));
   const result: TranscriptionResult = {
-    text: results.map(r => r.text).join(' ')
+    text: mergeChunkTexts(results),
+    duration: totalDuration,
+    audio: { size, container: format.container, codec: format.codec },
+    chunks: results.map(chunk => ({
+      index: chunk.index,
+      start: chunk.offset,
+      end: chunk.end,
+      language: chunk.language,
+      elapsed: elapsed.get(chunk.index),
+      retries: usage.retriesOf(`Chunk ${chunk.index + 1}`),
+      cached: cachedIndexes.has(chunk.index),
+      failure: failures.find(failure => failure.index === chunk.index)?.stage
+    }))
   };
+  if (failures.length > 0) {
+    result.failures = failures.sort((a, b) => a.index - b.index);
+  }
 
   if (needSrt) {
-    // Renumber SRT entries with correct global indices
-    const allSrtEntries: SrtEntry[] = [];
-    let globalIndex = 1;
-    for (const r of results) {
-      if (r.srtEntries) {
-        for (const entry of r.srtEntries) {
-          allSrtEntries.push({
-            ...entry,
-            index: globalIndex++
-          });
-        }
-      }
+    const entries = mergeChunkEntries(results);
+    result.entries = layout ? layoutEntries(entries, layout) : entries;
+    if (layout && wordTimestamps) {
+      // Layout splits and joins cues, so words are handed out again by time
+      result.entries = attachWords(result.entries, collectWords(entries));
     }
-    result.srt = entriesToSrtString(allSrtEntries);
+    result.srt = entriesToSrtString(result.entries);
   }
 
   return result;
 }
 
+// ffprobe input options that send a URL probe with the download's headers and read timeout
+function httpProbeArgs(download: DownloadOptions = {}): string[] {
+  const args: string[] = [];
+  const headers = Object.entries(download.headers ?? {});
+  if (headers.length > 0) {
+    args.push('-headers', headers.map(([name, value]) => `${name}: ${value}\r\n`).join(''));
+  }
+  if (download.readTimeout) {
+    args.push('-rw_timeout', String(download.readTimeout * 1000));   // microseconds
+  }
+  return args;
+}
+
+// What a transcription would do, worked out without calling the API
+export interface TranscriptionPlan {
+  duration: number;       // seconds
+  chunks: ChunkBoundary[];
+  cached: number;         // Chunks an earlier run left in the cache (resume mode)
+  pendingDuration: number;    // Seconds of chunk audio still to transcribe, overlaps included
+  concurrency: number;
+  provider: TranscriptionProvider;
+}
+
+/**
+ * Probe a file or URL and plan its chunks the way a transcription would. URLs are
+ * probed over HTTP with the download's headers and planned with fixed chunks, as
+ * finding pauses would download the whole file, and their cache is not consulted.
+ */
+export async function planTranscription(
+  input: string,
+  options: TranscriptionOptions & { download?: DownloadOptions } = {}
+): Promise<TranscriptionPlan> {
+  const {
+    language = 'auto',
+    chunkDuration = 300,
+    splitStrategy = 'silence',
+    overlap = 0,
+    openaiConfig,
+    concurrency: requestedConcurrency = DEFAULT_CONCURRENCY,
+    provider = createTranscriptionProvider({ openaiConfig }),
+    chatModel = DEFAULT_CHAT_MODEL,
+    outputFormat = 'text',
+    wordTimestamps = false,
+    formatText = false,
+    preprocess,
+    maxUploadBytes,
+    cache: cacheMode = 'write',
+    download,
+    signal
+  } = options;
+  const isRemote = input.startsWith('http://') || input.startsWith('https://');
+
+  const probeArgs = isRemote ? httpProbeArgs(download) : [];
+  const duration = await probeDuration(input, signal, probeArgs);
+  if (!Number.isFinite(duration)) {
+    throw new Error(`Could not read the duration of ${input}`);
+  }
+  // The size of a URL is not known before downloading, without a stream bitrate its chunks are taken to fit
+  const uploadLimit = maxUploadBytes ?? (provider.local ? Infinity : DEFAULT_UPLOAD_LIMIT);
+  const byteRate = preprocess
+    ? preprocessByteRate(preprocess)
+    : await probeAudioByteRate(input, signal, probeArgs) ?? (isRemote ? 0 : (await stat(input)).size / duration);
+  const chunks = await planChunks(input, duration, {
+    strategy: isRemote ? 'fixed' : splitStrategy,
+    chunkDuration: fitChunkDuration(chunkDuration, byteRate, uploadLimit, overlap),
+    overlap,
+    signal
+  });
+
+  const cache = cacheMode === 'resume' && !isRemote
+    ? await ChunkCache.peek(input, {
+        language,
+        model: `${provider.name}:${provider.model}`,
+        outputFormat,
+        wordTimestamps,
+        formatText: outputFormat === 'srt' && formatText,
+        chatModel: !provider.local && (outputFormat !== 'srt' || formatText) ? chatModel : undefined,
+        preprocess: preprocess && describePreprocess(preprocess)
+      })
+    : null;
+  let cached = 0;
+  let pendingDuration = 0;
+  for (const chunk of chunks) {
+    if (cache && await cache.get(chunk)) {
+      cached++;
+    } else {
+      pendingDuration += chunk.duration;
+    }
+  }
+
+  return {
+    duration,
+    chunks,
+    cached,
+    pendingDuration,
+    concurrency: Math.max(1, Math.min(requestedConcurrency, provider.maxConcurrency ?? Infinity)),
+    provider
+  };
+}
+
 // Transcribe from file path directly (no memory copy)
 export async function transcribeAudioFile(
   filePath: string,
   options: TranscriptionOptions = {}
 ): Promise<TranscriptionResult> {
-  const sessionId = uuidv4();
-  const baseDir = join(process.cwd(), 'temp');
-  const tempDir = join(baseDir, sessionId);
+  const tempDir = await createTempSession(options.tempDir);
 
   try {
-    // Create directories recursively
-    if (!existsSync(baseDir)) {
-      mkdirSync(baseDir, { recursive: true });
-    }
-    if (!existsSync(tempDir)) {
-      mkdirSync(tempDir, { recursive: true });
-    }
-
-    logger.info(`[Transcription] Created temp directory: ${tempDir}`);
-
     return await transcribeFromPath(filePath, tempDir, options);
   } catch (error) {
     logger.error('[Transcription] Error:', error);
     throw error;
   } finally {
-    // Cleanup temp directory if it exists
-    try {
-      if (existsSync(tempDir)) {
-        execSync(`rm -rf "${tempDir}"`);
-        logger.info(`[Transcription] Cleaned up temp directory: ${tempDir}`);
-      }
-    } catch (cleanupError) {
-      logger.warn('[Transcription] Error during cleanup:', cleanupError);
-    }
+    removeTempSession(tempDir);
   }
 }
 
@@ -312,24 +669,12 @@ export async function transcribeAudio(
   extension: string,
   options: TranscriptionOptions = {}
 ): Promise<TranscriptionResult> {
-  const sessionId = uuidv4();
-  const baseDir = join(process.cwd(), 'temp');
-  const tempDir = join(baseDir, sessionId);
+  const tempDir = await createTempSession(options.tempDir);
 
-  // Ensure extension starts with dot
-  const ext = extension.startsWith('.') ? extension : `.${extension}`;
+  // Ensure extension starts with dot, none leaves the format to detection
+  const ext = !extension || extension.startsWith('.') ? extension : `.${extension}`;
 
   try {
-    // Create directories recursively
-    if (!existsSync(baseDir)) {
-      mkdirSync(baseDir, { recursive: true });
-    }
-    if (!existsSync(tempDir)) {
-      mkdirSync(tempDir, { recursive: true });
-    }
-
-    logger.info(`[Transcription] Created temp directory: ${tempDir}`);
-
     const inputPath = join(tempDir, `input${ext}`);
     writeFileSync(inputPath, audioBuffer);
 
@@ -338,15 +683,41 @@ export async function transcribeAudio(
     logger.error('[Transcription] Error:', error);
     throw error;
   } finally {
-    // Cleanup temp directory if it exists
-    try {
-      if (existsSync(tempDir)) {
-        execSync(`rm -rf "${tempDir}"`);
-        logger.info(`[Transcription] Cleaned up temp directory: ${tempDir}`);
+    removeTempSession(tempDir);
+  }
+}
+
+// Transcribe from URL (streamed to a temp file first)
+export async function transcribeAudioUrl(
+  url: string,
+  options: TranscriptionOptions & { download?: DownloadOptions } = {}
+): Promise<TranscriptionResult> {
+  const { download, ...transcriptionOptions } = options;
+  const { onProgress } = options;
+  const tempDir = await createTempSession(options.tempDir);
+
+  try {
+    // No extension yet, the format is detected from the content
+    const { path, size, finalUrl, contentType, contentDisposition } = await downloadToFile(url, join(tempDir, 'input'), {
+      ...download,
+      signal: download?.signal ?? options.signal,
+      onProgress: (downloaded, total) => {
+        download?.onProgress?.(downloaded, total);
+        onProgress?.({ type: 'download', progress: { current: downloaded, total: total ?? 0 } });
       }
-    } catch (cleanupError) {
-      logger.warn('[Transcription] Error during cleanup:', cleanupError);
-    }
+    });
+    onProgress?.({ type: 'downloaded', progress: { current: size, total: size } });
+
+    return await transcribeFromPath(path, tempDir, transcriptionOptions, {
+      contentType,
+      contentDisposition,
+      url: finalUrl
+    });
+  } catch (error) {
+    logger.error('[Transcription] Error:', error);
+    throw error;
+  } finally {
+    removeTempSession(tempDir);
   }
 }
 
@@ -0,0 +1,226 @@
+/**
+ * Transcript and subtitle translation with the chat model
+ *
+ * Transcripts are translated in sections that fit the context budget, keeping paragraphs.
+ * Subtitle cues are translated in numbered batches, with the cues just before each batch
+ * sent along as context, and every cue keeps its original timing.
+ */
+
+import OpenAI from 'openai';
+import pLimit from 'p-limit';
+import { logger } from '../utils/logger';
+import { createOpenAIClient, OpenAIConfig, DEFAULT_CHAT_MODEL } from './openai';
+import { estimateTokens, splitIntoSections, DEFAULT_CONTEXT_TOKENS, PROMPT_OVERHEAD_TOKENS } from './summary';
+import { withRetry, RequestPolicy } from './retry';
+import { languageName } from './languages';
+import { SrtEntry } from './types';
+
+export interface TranslateOptions {
+  targetLanguage: string;   // Code such as en or zh-TW, or a language name
+  sourceLanguage?: string;  // Language of the transcript, detected by the model when not set
+  openaiConfig?: OpenAIConfig;
+  model?: string;
+  contextTokens?: number;   // Context window budget of the model (default 12000)
+  concurrency?: number;     // Requests at the same time (default 3)
+  policy?: RequestPolicy;
+}
+
+// Cues per request, and cues before a batch sent as context
+export const CUE_BATCH_SIZE = 40;
+const CUE_CONTEXT = 3;
+
+function systemPrompt(options: TranslateOptions): string {
+  const source = options.sourceLanguage && options.sourceLanguage !== 'auto'
+    ? ` from ${languageName(options.sourceLanguage)}`
+    : '';
+  return `You are a professional translator of podcast and interview transcripts. Translate${source} into ${languageName(options.targetLanguage)}.
+- Translate faithfully and completely, in a natural spoken register
+- Keep names, numbers and technical terms accurate
+- Do not add notes, explanations or anything that is not in the source`;
+}
+
+// Input tokens per request: the translation needs about as many tokens as the source
+function inputBudget(contextTokens: number): number {
+  const budget = Math.floor((contextTokens - PROMPT_OVERHEAD_TOKENS) / 2);
+  if (budget < 200) {
+    throw new Error(`Context budget too small for translation: ${contextTokens} tokens`);
+  }
+  return budget;
+}
+
+async function chat(
+  client: OpenAI,
+  model: string,
+  system: string,
+  content: string,
+  maxTokens: number,
+  policy: RequestPolicy
+): Promise<string> {
+  const response = await withRetry('Translation', signal => client.chat.completions.create({
+    model,
+    messages: [
+      { role: 'system', content: system },
+      { role: 'user', content }
+    ],
+    temperature: 0.3,
+    max_tokens: maxTokens
+  }, { signal }), policy);
+  policy.usage?.recordTokens('translation', response.usage);
+
+  const text = response.choices[0]?.message?.content;
+  if (!text) {
+    throw new Error('No translation generated');
+  }
+  return text.trim();
+}
+
+// Group paragraphs into sections within the budget, splitting paragraphs that are too long
+function splitParagraphs(text: string, maxTokens: number): string[] {
+  const sections: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  for (const paragraph of text.split(/\n{2,}/).map(part => part.trim()).filter(Boolean)) {
+    const pieces = estimateTokens(paragraph) > maxTokens ? splitIntoSections(paragraph, maxTokens) : [paragraph];
+    for (const piece of pieces) {
+      const tokens = estimateTokens(piece);
+      if (current.length > 0 && currentTokens + tokens > maxTokens) {
+        sections.push(current.join('\n\n'));
+        current = [];
+        currentTokens = 0;
+      }
+      current.push(piece);
+      currentTokens += tokens;
+    }
+  }
+  if (current.length > 0) {
+    sections.push(current.join('\n\n'));
+  }
+  return sections;
+}
+
+/**
+ * Translate a transcript, section by section for long ones
+ */
+export async function translateText(text: string, options: TranslateOptions): Promise<string> {
+  const {
+    openaiConfig,
+    model = DEFAULT_CHAT_MODEL,
+    contextTokens = DEFAULT_CONTEXT_TOKENS,
+    concurrency = 3,
+    policy = {}
+  } = options;
+  const client = createOpenAIClient(openaiConfig);
+  const budget = inputBudget(contextTokens);
+
+  const sections = splitParagraphs(text, budget);
+  logger.info(`[Translate] Translating transcript in ${sections.length} sections`);
+
+  const limit = pLimit(concurrency);
+  const system = `${systemPrompt(options)}\n- Keep the paragraph breaks\n\nAnswer with the translation only.`;
+  const translated = await Promise.all(sections.map(section =>
+    chat(client, model, system, section, budget + PROMPT_OVERHEAD_TOKENS, { ...policy, limit })
+  ));
+  return translated.join('\n\n');
+}
+
+// Parse {"translations": [...]} from the answer, tolerating text around the JSON object
+function parseTranslations(content: string): string[] | null {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start < 0 || end <= start) return null;
+  try {
+    const data = JSON.parse(content.slice(start, end + 1)) as { translations?: unknown };
+    return Array.isArray(data.translations) ? data.translations.map(item => String(item ?? '')) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Translate subtitle cues. Timings, numbering and cue count are unchanged;
+ * word timing is dropped since it belongs to the original words.
+ */
+export async function translateEntries(entries: SrtEntry[], options: TranslateOptions): Promise<SrtEntry[]> {
+  const {
+    openaiConfig,
+    model = DEFAULT_CHAT_MODEL,
+    contextTokens = DEFAULT_CONTEXT_TOKENS,
+    concurrency = 3,
+    policy = {}
+  } = options;
+  const client = createOpenAIClient(openaiConfig);
+  const budget = inputBudget(contextTokens);
+  const limit = pLimit(concurrency);
+  const requestPolicy: RequestPolicy = { ...policy, limit };
+
+  const system = `${systemPrompt(options)}
+- You get numbered subtitle cues from one recording, in order. Sentences may run across cues
+- Translate every cue so it can be shown on its own, at a similar length, keeping the order
+- Cues under "Context" were already translated, use them only to understand the start of the batch
+
+Answer with JSON only, one translation per numbered cue, in this form:
+{"translations": ["...", "..."]}`;
+
+  // Batches by count and token budget
+  const batches: number[][] = [];
+  let batch: number[] = [];
+  let batchTokens = 0;
+  entries.forEach((entry, i) => {
+    const tokens = estimateTokens(entry.text) + 4;
+    if (batch.length > 0 && (batch.length >= CUE_BATCH_SIZE || batchTokens + tokens > budget)) {
+      batches.push(batch);
+      batch = [];
+      batchTokens = 0;
+    }
+    batch.push(i);
+    batchTokens += tokens;
+  });
+  if (batch.length > 0) batches.push(batch);
+
+  logger.info(`[Translate] Translating ${entries.length} cues in ${batches.length} batches`);
+
+  const translateBatch = async (indices: number[]): Promise<string[]> => {
+    const first = indices[0];
+    const context = entries.slice(Math.max(0, first - CUE_CONTEXT), first).map(entry => entry.text.replace(/\n/g, ' '));
+    const cues = indices.map((index, n) => `${n + 1}. ${entries[index].text.replace(/\n/g, ' ')}`);
+    const content = (context.length > 0 ? `Context:\n${context.join('\n')}\n\n` : '') + `Cues:\n${cues.join('\n')}`;
+
+    const answer = await chat(client, model, system, content, budget + PROMPT_OVERHEAD_TOKENS, requestPolicy);
+    const translations = parseTranslations(answer);
+    if (translations && translations.length === indices.length) {
+      return translations.map(text => text.trim());
+    }
+
+    // The model merged or split cues: retry in halves so timings still line up
+    if (indices.length > 1) {
+      logger.warn(`[Translate] Got ${translations?.length ?? 'no'} translations for ${indices.length} cues, retrying in halves`);
+      const middle = Math.ceil(indices.length / 2);
+      const [head, tail] = await Promise.all([translateBatch(indices.slice(0, middle)), translateBatch(indices.slice(middle))]);
+      return [...head, ...tail];
+    }
+    return [translations?.[0]?.trim() || answer];
+  };
+
+  const translated = await Promise.all(batches.map(translateBatch));
+  const texts = translated.flat();
+
+  return entries.map((entry, i) => ({
+    index: entry.index,
+    startTime: entry.startTime,
+    endTime: entry.endTime,
+    text: texts[i]
+  }));
+}
+
+/**
+ * Cues showing the original line above its translation
+ */
+export function bilingualEntries(original: SrtEntry[], translated: SrtEntry[]): SrtEntry[] {
+  return original.map((entry, i) => ({
+    index: entry.index,
+    startTime: entry.startTime,
+    endTime: entry.endTime,
+    text: translated[i] ? `${entry.text}\n${translated[i].text}` : entry.text
+  }));
+}
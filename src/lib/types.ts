@@ -16,6 +16,13 @@ export interface WhisperSegment {
   no_speech_prob: number;
 }
 
+// Whisper API verbose_json word, with timestamp_granularities including 'word'
+export interface WhisperWord {
+  word: string;
+  start: number;  // seconds
+  end: number;    // seconds
+}
+
 // Whisper API verbose_json response
 export interface WhisperVerboseResponse {
   task: string;
@@ -23,6 +30,7 @@ export interface WhisperVerboseResponse {
   duration: number;
   text: string;
   segments: WhisperSegment[];
+  words?: WhisperWord[];  // Only when word timestamps were requested
 }
 
 // SRT subtitle entry
@@ -31,10 +39,74 @@ export interface SrtEntry {
   startTime: number;      // Start time in seconds
   endTime: number;        // End time in seconds
   text: string;           // Subtitle text
+  words?: WhisperWord[];  // Word timing within the entry, in source audio seconds
+}
+
+// Planned chunk of the source audio
+export interface ChunkBoundary {
+  index: number;          // Chunk index (0-based)
+  start: number;          // Planned start time in seconds
+  duration: number;       // Planned duration in seconds
+}
+
+// Result from transcribing a single chunk
+export interface ChunkResult {
+  index: number;
+  offset: number;         // Real start of the chunk audio in seconds
+  end: number;            // End of the chunk audio in seconds
+  text: string;
+  srtEntries?: SrtEntry[];
+  language?: string;      // Detected by the model (timestamped transcription only)
+}
+
+// Chunk that still failed after retries
+export interface ChunkFailure {
+  index: number;          // Chunk index (0-based)
+  start: number;          // seconds
+  end: number;            // seconds
+  stage: 'transcription' | 'formatting';  // formatting failures keep the unformatted text
+  error: string;
+}
+
+// Chunk as reported while a transcription runs
+export interface TranscribedChunk {
+  index: number;          // Chunk index (0-based)
+  total: number;          // Chunks in the whole transcription
+  start: number;          // Real start of the chunk audio in seconds
+  end: number;            // End of the chunk audio in seconds
+  text: string;
+  entries?: SrtEntry[];   // srt output only, in source audio seconds
+  language?: string;      // Detected by the model (srt output only)
+  cached: boolean;        // Reused from an earlier run
+  failure?: ChunkFailure; // Set for gaps and unformatted chunks
+}
+
+// The audio a transcription read
+export interface AudioInfo {
+  size: number;           // bytes
+  container: string;
+  codec?: string;
+}
+
+// How one chunk of a transcription went
+export interface ChunkReport {
+  index: number;          // Chunk index (0-based)
+  start: number;          // Real start of the chunk audio in seconds
+  end: number;            // End of the chunk audio in seconds
+  language?: string;      // Detected by the model (srt output only)
+  elapsed?: number;       // Seconds from the first request to the result, not for cached chunks
+  retries: number;        // Transcription requests retried
+  cached: boolean;
+  failure?: ChunkFailure['stage'];
 }
 
 // Transcription result with optional SRT
 export interface TranscriptionResult {
   text: string;           // Plain text transcription
   srt?: string;           // SRT format string
+  entries?: SrtEntry[];   // Subtitle timeline the SRT string was built from
+  duration?: number;      // Length of the source audio in seconds
+  failures?: ChunkFailure[];  // Chunks marked as gaps or left unformatted
+  audio?: AudioInfo;
+  chunks?: ChunkReport[]; // In audio order
 }
@@ -0,0 +1,59 @@
+/**
+ * Request accounting for one run: API requests, retries, and the token usage the
+ * chat API reports. Handed to every request through RequestPolicy.usage.
+ */
+
+import type { CompletionUsage } from 'openai/resources/completions';
+
+export interface TokenUsage {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface UsageSummary {
+  requests: number;       // Attempts, retries included
+  retries: number;
+  tokens: Record<string, TokenUsage>;   // By stage: formatting, summary, chapters, translation
+  totalTokens: number;
+}
+
+export class UsageTracker {
+  private requests = 0;
+  private retries = new Map<string, number>();
+  private tokens = new Map<string, TokenUsage>();
+
+  recordRequest(): void {
+    this.requests++;
+  }
+
+  recordRetry(label: string): void {
+    this.retries.set(label, (this.retries.get(label) ?? 0) + 1);
+  }
+
+  // Usage is missing from servers that do not report it, the request still counts
+  recordTokens(stage: string, usage?: CompletionUsage): void {
+    const total = this.tokens.get(stage) ?? { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    total.requests++;
+    total.promptTokens += usage?.prompt_tokens ?? 0;
+    total.completionTokens += usage?.completion_tokens ?? 0;
+    total.totalTokens += usage?.total_tokens ?? 0;
+    this.tokens.set(stage, total);
+  }
+
+  // Retries of the requests made under one label, e.g. "Chunk 3"
+  retriesOf(label: string): number {
+    return this.retries.get(label) ?? 0;
+  }
+
+  summary(): UsageSummary {
+    const tokens = Object.fromEntries(this.tokens);
+    return {
+      requests: this.requests,
+      retries: [...this.retries.values()].reduce((sum, count) => sum + count, 0),
+      tokens,
+      totalTokens: Object.values(tokens).reduce((sum, usage) => sum + usage.totalTokens, 0)
+    };
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Version of pt from its package.json, looked up from this file's directory so it is
+ * found from the sources and from the bundles in dist/ alike
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join } from 'path';
+
+const PACKAGE_NAME = '@winterfx/pt-cli';
+
+let version: string | undefined;
+
+export function getVersion(): string {
+  if (version) return version;
+
+  for (let dir = __dirname; ; dir = dirname(dir)) {
+    const path = join(dir, 'package.json');
+    if (existsSync(path)) {
+      try {
+        const pkg = JSON.parse(readFileSync(path, 'utf-8')) as { name?: string; version?: string };
+        if (pkg.name === PACKAGE_NAME && pkg.version) {
+          version = pkg.version;
+          return version;
+        }
+      } catch {
+        // Not ours, keep looking
+      }
+    }
+    if (dirname(dir) === dir) break;
+  }
+
+  version = 'unknown';
+  return version;
+}
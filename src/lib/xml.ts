@@ -0,0 +1,129 @@
+/**
+ * Minimal XML utilities - enough for podcast feeds and subtitle documents
+ * Not a validating parser: namespaces are kept as part of the tag name (e.g. "itunes:duration")
+ */
+
+export interface XmlNode {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlNode[];
+  text: string;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+};
+
+/**
+ * Decode XML character and named entity references
+ */
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      // Keep references to code points that do not exist as they are
+      return Number.isNaN(code) || code > 0x10ffff ? match : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Escape text for use in XML content or attribute values
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const attrPattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = attrPattern.exec(source)) !== null) {
+    attrs[match[1]] = decodeXmlEntities(match[2] ?? match[3] ?? '');
+  }
+  return attrs;
+}
+
+/**
+ * Parse an XML document into a node tree and return the root element
+ * Comments, processing instructions and DOCTYPE declarations are skipped,
+ * CDATA sections are treated as text
+ */
+export function parseXml(xml: string): XmlNode {
+  const root: XmlNode = { name: '#document', attrs: {}, children: [], text: '' };
+  const stack: XmlNode[] = [root];
+  const tokenPattern = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(xml)) !== null) {
+    const current = stack[stack.length - 1];
+    const [, cdata, closeName, openName, attrSource, selfClosing, text] = match;
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (closeName !== undefined) {
+      // Pop back to the matching element, tolerating unclosed children
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].name === closeName) {
+          stack.length = i;
+          break;
+        }
+      }
+    } else if (openName !== undefined) {
+      const node: XmlNode = {
+        name: openName,
+        attrs: parseAttributes(attrSource || ''),
+        children: [],
+        text: ''
+      };
+      current.children.push(node);
+      if (!selfClosing) {
+        stack.push(node);
+      }
+    } else if (text !== undefined) {
+      current.text += decodeXmlEntities(text);
+    }
+  }
+
+  const documentElement = root.children[0];
+  if (!documentElement) {
+    throw new Error('Invalid XML: no root element found');
+  }
+  return documentElement;
+}
+
+/**
+ * Find the first direct child with one of the given tag names
+ */
+export function findChild(node: XmlNode, ...names: string[]): XmlNode | undefined {
+  return node.children.find(child => names.includes(child.name));
+}
+
+/**
+ * Find all direct children with one of the given tag names
+ */
+export function findChildren(node: XmlNode, ...names: string[]): XmlNode[] {
+  return node.children.filter(child => names.includes(child.name));
+}
+
+/**
+ * Get the trimmed text of the first matching child, if any
+ */
+export function childText(node: XmlNode, ...names: string[]): string | undefined {
+  const child = findChild(node, ...names);
+  const text = child?.text.trim();
+  return text ? text : undefined;
+}
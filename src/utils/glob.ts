@@ -0,0 +1,101 @@
+import { readdir } from 'fs/promises';
+import { join, relative, sep } from 'path';
+
+// Characters that make an argument a glob pattern
+const GLOB_CHARS = /[*?[{]/;
+
+export function hasGlobChars(pattern: string): boolean {
+  return GLOB_CHARS.test(pattern);
+}
+
+/**
+ * Convert a glob pattern to a regular expression matching '/'-separated paths
+ * Supports *, ?, **, [abc] and {a,b}
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let inGroup = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // '**/' matches any number of directories, including none
+        const slash = pattern[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end < 0) {
+        source += '\\[';
+      } else {
+        source += `[${pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      inGroup = true;
+      source += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      source += ')';
+    } else if (char === ',' && inGroup) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+async function walk(dir: string, recursive: boolean): Promise<string[]> {
+  const files: string[] = [];
+  let dirents;
+  try {
+    dirents = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return files;
+  }
+  for (const dirent of dirents) {
+    if (dirent.name.startsWith('.')) continue;
+    const path = join(dir, dirent.name);
+    if (dirent.isDirectory()) {
+      if (recursive) files.push(...await walk(path, recursive));
+    } else if (dirent.isFile()) {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+/**
+ * List files in a directory (hidden files skipped), sorted by path
+ */
+export async function listFiles(dir: string, recursive: boolean = false): Promise<string[]> {
+  return (await walk(dir, recursive)).sort();
+}
+
+/**
+ * Expand a glob pattern to the matching files, sorted by path
+ */
+export async function expandGlob(pattern: string): Promise<string[]> {
+  const normalized = pattern.split(sep).join('/');
+  const segments = normalized.split('/');
+  const firstGlob = segments.findIndex(segment => hasGlobChars(segment));
+  const baseSegments = segments.slice(0, firstGlob);
+  const base = baseSegments.length === 1 && baseSegments[0] === '' ? '/' : baseSegments.join('/') || '.';
+  const rest = segments.slice(firstGlob);
+
+  const regex = globToRegExp(rest.join('/'));
+  const recursive = rest.length > 1 || rest.some(segment => segment.includes('**'));
+
+  const files = await walk(base, recursive);
+  return files
+    .filter(file => regex.test(relative(base, file).split(sep).join('/')))
+    .sort();
+}
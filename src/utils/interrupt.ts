@@ -0,0 +1,40 @@
+import chalk from 'chalk';
+import { cleanupTempDirs } from '../lib/temp';
+
+// Exit code of a run stopped by Ctrl-C
+export const INTERRUPTED_EXIT_CODE = 130;
+
+export interface Interrupts {
+  signal: AbortSignal;    // Aborted by the first SIGINT or SIGTERM
+  dispose(): void;
+}
+
+/**
+ * Ctrl-C handling for commands that transcribe.
+ * First signal: abort, so running ffmpeg processes are killed, requests in flight are
+ * cancelled and temp sessions are removed as the run unwinds. Second signal: remove
+ * the temp sessions and exit at once.
+ */
+export function handleInterrupts(): Interrupts {
+  const controller = new AbortController();
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (controller.signal.aborted) {
+      cleanupTempDirs();
+      console.error(chalk.yellow(`\n${signal} again, exiting`));
+      process.exit(INTERRUPTED_EXIT_CODE);
+    }
+    console.error(chalk.yellow(`\n${signal} received, cancelling (repeat to exit at once)`));
+    controller.abort(new Error(`Interrupted by ${signal}`));
+  };
+  process.on('SIGINT', onSignal);
+  process.on('SIGTERM', onSignal);
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      process.off('SIGINT', onSignal);
+      process.off('SIGTERM', onSignal);
+    }
+  };
+}
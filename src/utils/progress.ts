@@ -40,12 +40,13 @@ export class ProgressReporter {
     }
   }
 
-  progressBar(current: number, total: number, label: string = ''): void {
+  // `format` renders the counts, e.g. formatBytes for downloads
+  progressBar(current: number, total: number, label: string = '', format: (value: number) => string = String): void {
     if (this.quiet) return;
 
-    const percentage = Math.round((current / total) * 100);
+    const percentage = Math.min(100, Math.round((current / total) * 100));
     const filled = Math.round(percentage / 5);
     const bar = '\u2588'.repeat(filled) + '\u2591'.repeat(20 - filled);
-    this.update(`${label} [${bar}] ${percentage}% (${current}/${total})`);
+    this.update(`${label} [${bar}] ${percentage}% (${format(current)}/${format(total)})`);
   }
 }
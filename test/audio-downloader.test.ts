@@ -0,0 +1,165 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, IncomingHttpHeaders, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { downloadToFile } from '../src/lib/audio-downloader';
+
+const audio = Buffer.from(Array.from({ length: 1000 }, (_, i) => i % 256));
+const changed = Buffer.alloc(1000, 7);
+
+// Request headers seen by each path, in order
+const requests = new Map<string, IncomingHttpHeaders[]>();
+
+// Send part of the body, then drop the connection once the client had time to store it
+const breakOff = (res: ServerResponse, data: Buffer) => {
+  res.write(data, () => setTimeout(() => res.destroy(), 200));
+};
+
+let server: Server;
+let baseUrl: string;
+let dir: string;
+
+before(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'pt-download-'));
+  server = createServer((req, res) => {
+    const seen = requests.get(req.url!) ?? [];
+    seen.push(req.headers);
+    requests.set(req.url!, seen);
+    const range = req.headers.range?.match(/^bytes=(\d+)-$/);
+
+    switch (req.url) {
+      // Breaks off after 400 bytes, then serves the rest of the same file
+      case '/resume':
+        if (seen.length === 1) {
+          res.writeHead(200, { 'Content-Length': audio.length, ETag: '"v1"' });
+          breakOff(res, audio.subarray(0, 400));
+        } else if (range && req.headers['if-range'] === '"v1"') {
+          const start = Number(range[1]);
+          res.writeHead(206, { 'Content-Length': audio.length - start, ETag: '"v1"' });
+          res.end(audio.subarray(start));
+        } else {
+          res.writeHead(200, { 'Content-Length': audio.length, ETag: '"v1"' });
+          res.end(audio);
+        }
+        return;
+      // Breaks off, then the file is replaced, so If-Range no longer matches
+      case '/changed':
+        if (seen.length === 1) {
+          res.writeHead(200, { 'Content-Length': audio.length, ETag: '"v1"' });
+          breakOff(res, audio.subarray(0, 400));
+        } else {
+          res.writeHead(200, { 'Content-Length': changed.length, ETag: '"v2"' });
+          res.end(changed);
+        }
+        return;
+      // Sends the headers and a little data, then nothing
+      case '/stall':
+        res.writeHead(200, { 'Content-Length': audio.length });
+        res.write(audio.subarray(0, 100));
+        return;
+      // Headers at once, then the body over more than the connect timeout
+      case '/slow':
+        res.writeHead(200, { 'Content-Length': audio.length });
+        res.flushHeaders();
+        [0, 1, 2, 3].forEach(i =>
+          setTimeout(() => {
+            if (res.destroyed) return;
+            res.write(audio.subarray(i * 250, (i + 1) * 250));
+            if (i === 3) res.end();
+          }, (i + 1) * 150)
+        );
+        return;
+      // Takes longer than the connect timeout to answer at all
+      case '/no-headers':
+        setTimeout(() => {
+          if (res.destroyed) return;
+          res.writeHead(200, { 'Content-Length': audio.length });
+          res.end(audio);
+        }, 500);
+        return;
+      case '/large':
+        res.writeHead(200, { 'Content-Length': audio.length });
+        res.end(audio);
+        return;
+      // No Content-Length, the limit is only noticed while streaming
+      case '/large-chunked':
+        res.writeHead(200);
+        res.end(audio);
+        return;
+      default:
+        res.writeHead(404);
+        res.end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+  await rm(dir, { recursive: true, force: true });
+});
+
+test('an interrupted download resumes with Range and If-Range', async () => {
+  const path = join(dir, 'resume');
+  const result = await downloadToFile(`${baseUrl}/resume`, path, { retries: 2 });
+
+  assert.equal(result.size, audio.length);
+  assert.deepEqual(await readFile(path), audio);
+  const [first, second] = requests.get('/resume')!;
+  assert.equal(first.range, undefined);
+  assert.equal(second.range, 'bytes=400-');
+  assert.equal(second['if-range'], '"v1"');
+});
+
+test('a file that changed between attempts is downloaded again from the start', async () => {
+  const path = join(dir, 'changed');
+  const result = await downloadToFile(`${baseUrl}/changed`, path, { retries: 2 });
+
+  assert.equal(result.size, changed.length);
+  assert.deepEqual(await readFile(path), changed);
+  const [, second] = requests.get('/changed')!;
+  assert.equal(second.range, 'bytes=400-');
+  assert.equal(second['if-range'], '"v1"');
+});
+
+test('a download without data for the read timeout fails', async () => {
+  await assert.rejects(
+    downloadToFile(`${baseUrl}/stall`, join(dir, 'stall'), { retries: 0, readTimeout: 100 }),
+    /No data received for 0.1s/
+  );
+});
+
+test('the connect timeout does not cut off a slow body', async () => {
+  const path = join(dir, 'slow');
+  const result = await downloadToFile(`${baseUrl}/slow`, path, { retries: 0, connectTimeout: 100, readTimeout: 1000 });
+
+  assert.equal(result.size, audio.length);
+  assert.deepEqual(await readFile(path), audio);
+});
+
+test('a server that does not answer within the connect timeout fails', async () => {
+  await assert.rejects(
+    downloadToFile(`${baseUrl}/no-headers`, join(dir, 'no-headers'), { retries: 0, connectTimeout: 100 }),
+    /No response within 0.1s/
+  );
+});
+
+test('a download larger than maxSize is refused from its Content-Length', async () => {
+  await assert.rejects(
+    downloadToFile(`${baseUrl}/large`, join(dir, 'large'), { maxSize: 500 }),
+    /Download too large: 1000 B \(limit 500 B\)/
+  );
+});
+
+test('a download without Content-Length stops once it passes maxSize, without retrying', async () => {
+  await assert.rejects(
+    downloadToFile(`${baseUrl}/large-chunked`, join(dir, 'large-chunked'), { maxSize: 500, retries: 3 }),
+    /Download too large: over 500 B/
+  );
+  assert.equal(requests.get('/large-chunked')!.length, 1);
+});
@@ -0,0 +1,42 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ChunkCache, ChunkCacheSettings } from '../src/lib/cache';
+
+const chunk = { index: 0, start: 0, duration: 300 };
+const result = { index: 0, offset: 0, end: 300, text: 'Formatted text.' };
+const settings: ChunkCacheSettings = { language: 'en', model: 'openai:whisper-1', outputFormat: 'text', chatModel: 'gpt-4o-mini' };
+
+let dir: string;
+let audioPath: string;
+
+before(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'pt-cache-'));
+  process.env.PT_CACHE_DIR = join(dir, 'cache');
+  audioPath = join(dir, 'audio.mp3');
+  await writeFile(audioPath, 'not really audio');
+  const cache = await ChunkCache.open(audioPath, settings, 'write');
+  await cache.set(chunk, result);
+});
+
+after(async () => {
+  delete process.env.PT_CACHE_DIR;
+  await rm(dir, { recursive: true, force: true });
+});
+
+test('a chunk formatted by the same chat model is reused', async () => {
+  const cache = await ChunkCache.open(audioPath, settings, 'resume');
+  assert.deepEqual(await cache.get(chunk), result);
+});
+
+test('a chunk formatted by another chat model is transcribed again', async () => {
+  const cache = await ChunkCache.open(audioPath, { ...settings, chatModel: 'gpt-4.1' }, 'resume');
+  assert.equal(await cache.get(chunk), null);
+});
+
+test('unformatted chunks are kept apart from formatted ones', async () => {
+  const cache = await ChunkCache.open(audioPath, { ...settings, chatModel: undefined }, 'resume');
+  assert.equal(await cache.get(chunk), null);
+});
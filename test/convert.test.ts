@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatOutput } from '../src/commands/output';
+import { parseSegmentsJson } from '../src/lib/subtitles';
+import { SrtEntry } from '../src/lib/types';
+
+const entries: SrtEntry[] = [
+  { index: 1, startTime: 0, endTime: 2.5, text: 'Hello there.' },
+  {
+    index: 2,
+    startTime: 2.5,
+    endTime: 5.125,
+    text: 'How are you?',
+    words: [
+      { word: 'How', start: 2.5, end: 3 },
+      { word: 'are', start: 3, end: 3.5 },
+      { word: 'you?', start: 3.5, end: 5.125 }
+    ]
+  }
+];
+
+test('pt json output converts back to the same cues', () => {
+  const json = formatOutput({ transcript: 'Hello there. How are you?', summary: null, entries }, 'json');
+  assert.deepEqual(parseSegmentsJson(json), entries);
+});
+
+test('segments output converts back to the same cues', () => {
+  const json = formatOutput({ transcript: '', summary: null, entries }, 'segments');
+  assert.deepEqual(parseSegmentsJson(json), entries);
+});
+
+test('json without segments is rejected', () => {
+  assert.throws(() => parseSegmentsJson('{"transcript":"Hello"}'), /no segments/);
+});
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseDateOption } from '../src/commands/feed';
+import { selectEpisodes, FeedEpisode } from '../src/lib/feed';
+
+const episode = (index: number, pubDate: Date): FeedEpisode => ({ index, guid: `ep-${index}`, title: `Episode ${index}`, pubDate });
+
+test('a plain --since date starts at the beginning of the local day', () => {
+  assert.equal(parseDateOption('2024-03-10', 'since').getTime(), new Date(2024, 2, 10).getTime());
+});
+
+test('a plain --until date ends at the end of the local day', () => {
+  assert.equal(parseDateOption('2024-03-10', 'until', true).getTime(), new Date(2024, 2, 10, 23, 59, 59, 999).getTime());
+});
+
+test('dates with a time are taken as given', () => {
+  assert.equal(parseDateOption('2024-03-10T12:00:00Z', 'until', true).toISOString(), '2024-03-10T12:00:00.000Z');
+});
+
+test('invalid dates are rejected', () => {
+  assert.throws(() => parseDateOption('yesterday', 'since'), /Invalid date for --since: yesterday/);
+  assert.throws(() => parseDateOption('2024-02-30', 'until', true), /Invalid date for --until: 2024-02-30/);
+});
+
+test('episodes published during the --until day are selected', () => {
+  const episodes = [
+    episode(1, new Date(2024, 2, 11, 0, 30)),
+    episode(2, new Date(2024, 2, 10, 18, 0)),
+    episode(3, new Date(2024, 2, 9, 8, 0)),
+    episode(4, new Date(2024, 2, 8, 23, 0))
+  ];
+  const selected = selectEpisodes(episodes, {
+    since: parseDateOption('2024-03-09', 'since'),
+    until: parseDateOption('2024-03-10', 'until', true)
+  });
+  assert.deepEqual(selected.map(item => item.index), [2, 3]);
+});
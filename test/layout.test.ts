@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { displayWidth, layoutEntries, LAYOUT_PRESETS, resolveLayoutOptions, wrapLines } from '../src/lib/subtitles/layout';
+import { parseJobOptions } from '../src/commands/jobs';
+
+test('layout overrides are applied on top of the preset', () => {
+  assert.deepEqual(resolveLayoutOptions('netflix', { maxLines: 3, maxCps: undefined }), {
+    maxCharsPerLine: 42,
+    maxLines: 3,
+    minDuration: 5 / 6,
+    maxDuration: 7,
+    maxCps: 20
+  });
+});
+
+test('the line count must be a whole number of at least 1', () => {
+  assert.throws(() => resolveLayoutOptions(undefined, { maxLines: 1.5 }), /maxLines: 1.5 \(expected a whole number of at least 1\)/);
+  assert.throws(() => resolveLayoutOptions(undefined, { maxLines: 0 }), /Invalid subtitle layout value for maxLines: 0/);
+});
+
+test('jobs take the line count as a whole number', () => {
+  assert.deepEqual(parseJobOptions({ maxLines: '2' }), { maxLines: 2 });
+  assert.throws(() => parseJobOptions({ maxLines: '1.5' }), /Invalid value for maxLines: "1.5" \(expected whole number of at least 1\)/);
+  assert.throws(() => parseJobOptions({ maxLines: 0 }), /Invalid value for maxLines/);
+});
+
+test('lines are wrapped at the maximum characters per line', () => {
+  const text = 'The quick brown fox jumps over the lazy dog';
+  assert.equal(wrapLines(text, 42, 2), 'The quick brown fox\njumps over the lazy dog');
+  assert.equal(wrapLines(text, 20, 3), 'The quick brown fox\njumps over the lazy\ndog');
+  assert.equal(wrapLines('Short line', 42, 2), 'Short line');
+});
+
+test('full-width characters count as two columns', () => {
+  assert.equal(displayWidth('中文abc'), 7);
+  // 13 characters are 26 columns, too wide for one line of 14
+  assert.equal(wrapLines('今天天气很好，我们去公园吧', 14, 2), '今天天气很好，\n我们去公园吧');
+  assert.equal(wrapLines('今天天气很好', 14, 2), '今天天气很好');
+});
+
+test('cues over the line limit are split at sentence ends, sharing the time span', () => {
+  const text = 'This is a fairly long sentence that goes on for a while. And then there is another sentence that keeps going past the limit.';
+  const entries = layoutEntries([{ index: 1, startTime: 0, endTime: 6, text }], LAYOUT_PRESETS.netflix);
+
+  assert.deepEqual(entries.map(entry => entry.text), [
+    'This is a fairly long sentence\nthat goes on for a while.',
+    'And then there is another sentence\nthat keeps going past the limit.'
+  ]);
+  assert.deepEqual(entries.map(entry => entry.index), [1, 2]);
+  assert.equal(entries[0].startTime, 0);
+  assert.equal(entries[1].startTime, entries[0].endTime);
+  for (const entry of entries) {
+    const lines = entry.text.split('\n');
+    assert.ok(lines.length <= 2);
+    assert.ok(lines.every(line => displayWidth(line) <= 42));
+  }
+});
+
+test('short cues are merged or stretched into the gap, long ones are capped', () => {
+  const entries = layoutEntries([
+    { index: 1, startTime: 0, endTime: 0.3, text: 'Hi,' },
+    { index: 2, startTime: 0.5, endTime: 2, text: 'how are you?' },
+    { index: 3, startTime: 4, endTime: 4.4, text: 'Fine.' },
+    { index: 4, startTime: 6, endTime: 6.2, text: 'Good.' },
+    { index: 5, startTime: 6.5, endTime: 20, text: 'Silence' }
+  ], LAYOUT_PRESETS.netflix);
+
+  assert.deepEqual(entries, [
+    // Under the minimum duration and close to the next cue: merged
+    { index: 1, startTime: 0, endTime: 2, text: 'Hi, how are you?' },
+    // Followed by a long gap: stretched to the minimum duration
+    { index: 2, startTime: 4, endTime: 4 + 5 / 6, text: 'Fine.' },
+    // Too long to merge with the next cue: stretched only up to its start
+    { index: 3, startTime: 6, endTime: 6.5, text: 'Good.' },
+    // Cut at the maximum duration
+    { index: 4, startTime: 6.5, endTime: 13.5, text: 'Silence' }
+  ]);
+});
@@ -0,0 +1,106 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  VerboseChunk,
+  mergeChunkEntries,
+  mergeChunkTexts,
+  mergeOverlappingEntries,
+  mergeOverlappingText,
+  mergeVerboseResponses,
+  textSimilarity
+} from '../src/lib/merge';
+import { SrtEntry } from '../src/lib/types';
+
+const entry = (startTime: number, endTime: number, text: string): SrtEntry => ({ index: 1, startTime, endTime, text });
+
+test('overlapping text keeps one copy of the shared words', () => {
+  assert.equal(
+    mergeOverlappingText('We went to the market and bought some fresh bre', 'and bought some fresh bread for dinner.', 3),
+    'We went to the market and bought some fresh bread for dinner.'
+  );
+});
+
+test('text alignment ignores case and punctuation', () => {
+  assert.equal(
+    mergeOverlappingText('Now, the results were', 'The results were clear.', 2),
+    'Now, the results were clear.'
+  );
+});
+
+test('CJK text aligns character by character', () => {
+  assert.equal(mergeOverlappingText('我们今天去了市场买了一些', '市场买了一些面包。', 2), '我们今天去了市场买了一些面包。');
+});
+
+test('text without a reliable alignment is joined as is', () => {
+  assert.equal(mergeOverlappingText('The first part ends here', 'here we go again', 2), 'The first part ends here here we go again');
+  assert.equal(mergeOverlappingText('', 'Only the next chunk', 2), 'Only the next chunk');
+});
+
+test('chunk texts without overlap are joined with a space', () => {
+  assert.equal(
+    mergeChunkTexts([
+      { offset: 0, end: 300, text: 'First chunk.' },
+      { offset: 300, end: 600, text: 'Second chunk.' }
+    ]),
+    'First chunk. Second chunk.'
+  );
+});
+
+test('textSimilarity counts shared words', () => {
+  assert.equal(textSimilarity('the end of the first part', 'The end of the first part!'), 1);
+  assert.equal(textSimilarity('completely different', 'nothing alike'), 0);
+  assert.equal(textSimilarity('', 'anything'), 0);
+});
+
+test('a repeated cue at the boundary is dropped and the cut-off cue replaced', () => {
+  const previous = [
+    entry(0, 4, 'Hello.'),
+    entry(296, 299.5, 'This is the end of the first part.'),
+    // Starts inside the overlap and runs into the end of the chunk
+    entry(301, 305, 'And here comes the')
+  ];
+  const next = [
+    entry(300.2, 301.8, 'of the first part.'),
+    entry(301.9, 305.5, 'And here comes the second part.'),
+    entry(306, 310, 'Next sentence.')
+  ];
+  assert.deepEqual(mergeOverlappingEntries(previous, next, 300, 305).map(cue => [cue.startTime, cue.endTime, cue.text]), [
+    [0, 4, 'Hello.'],
+    [296, 299.5, 'This is the end of the first part.'],
+    [301.9, 305.5, 'And here comes the second part.'],
+    [306, 310, 'Next sentence.']
+  ]);
+});
+
+test('the next chunk never starts before the kept cues end', () => {
+  const merged = mergeOverlappingEntries(
+    [entry(299, 301, 'First words here.')],
+    [entry(300.5, 303, 'Completely different speech.')],
+    300,
+    305
+  );
+  assert.deepEqual(merged.map(cue => [cue.startTime, cue.endTime]), [[299, 301], [301, 303]]);
+});
+
+test('cues of chunks without overlap are concatenated and renumbered', () => {
+  const merged = mergeChunkEntries([
+    { offset: 0, end: 300, text: '', srtEntries: [entry(0, 2, 'One.'), entry(298, 300, 'Two.')] },
+    { offset: 300, end: 600, text: '', srtEntries: [entry(300, 302, 'Two.')] }
+  ]);
+  assert.deepEqual(merged.map(cue => [cue.index, cue.text]), [[1, 'One.'], [2, 'Two.'], [3, 'Two.']]);
+});
+
+test('verbose responses of overlapping chunks merge into one transcript', () => {
+  const chunks: VerboseChunk[] = JSON.parse(readFileSync(join(__dirname, 'fixtures', 'overlap-chunks.json'), 'utf-8'));
+  const { text, entries } = mergeVerboseResponses(chunks);
+
+  assert.equal(text, 'Welcome back to the show. Today we talk about rivers and how they shape the land around them. Let\'s start with the Nile.');
+  assert.deepEqual(entries.map(cue => [cue.index, cue.startTime, cue.endTime, cue.text]), [
+    [1, 0, 3.2, 'Welcome back to the show.'],
+    [2, 296.4, 300.1, 'Today we talk about rivers'],
+    [3, 301.5, 305.8, 'and how they shape the land around them.'],
+    [4, 306.2, 308.4, 'Let\'s start with the Nile.']
+  ]);
+});
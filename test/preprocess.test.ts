@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { audioFilters, encodeArgs, fitChunkDuration, shrinkChunkDuration } from '../src/lib/preprocess';
+
+const MB = 1024 * 1024;
+
+test('noise filters run before loudness normalization', () => {
+  assert.deepEqual(audioFilters({ codec: 'opus' }), []);
+  assert.deepEqual(audioFilters({ codec: 'opus', normalize: true }), ['loudnorm=I=-16:TP=-1.5:LRA=11']);
+  assert.deepEqual(audioFilters({ codec: 'opus', normalize: true, denoise: true }), [
+    'highpass=f=80',
+    'afftdn',
+    'loudnorm=I=-16:TP=-1.5:LRA=11'
+  ]);
+});
+
+test('encodeArgs encodes mono audio with the codec defaults', () => {
+  assert.deepEqual(encodeArgs({ codec: 'opus' }), ['-ac', '1', '-ar', '16000', '-c:a', 'libopus', '-b:a', '24k']);
+  assert.deepEqual(encodeArgs({ codec: 'mp3' }), ['-ac', '1', '-ar', '16000', '-c:a', 'libmp3lame', '-b:a', '32k']);
+});
+
+test('encodeArgs applies the sample rate, bitrate and filters', () => {
+  assert.deepEqual(encodeArgs({ codec: 'mp3', sampleRate: 22050, bitrate: 48, normalize: true, denoise: true }), [
+    '-ac', '1',
+    '-ar', '22050',
+    '-af', 'highpass=f=80,afftdn,loudnorm=I=-16:TP=-1.5:LRA=11',
+    '-c:a', 'libmp3lame',
+    '-b:a', '48k'
+  ]);
+});
+
+test('encodeArgs rejects unknown codecs and invalid settings', () => {
+  assert.throws(() => encodeArgs({ codec: 'flac' as 'opus' }), /Unknown preprocess codec: flac \(expected opus, mp3\)/);
+  assert.throws(() => encodeArgs({ codec: 'opus', sampleRate: 0 }), /Sample rate must be a positive integer/);
+  assert.throws(() => encodeArgs({ codec: 'opus', sampleRate: 16000.5 }), /Sample rate must be a positive integer/);
+  assert.throws(() => encodeArgs({ codec: 'opus', bitrate: 0 }), /Bitrate must be positive/);
+});
+
+test('fitChunkDuration keeps chunks that fit and shortens the rest', () => {
+  // 25 MB at 32 kbit/s holds over 10 minutes
+  assert.equal(fitChunkDuration(300, 4000, 25 * MB), 300);
+  // 90% of 25 MB at 100 kB/s is 235.9 seconds
+  assert.equal(fitChunkDuration(300, 100000, 25 * MB), 235);
+  // The overlap is carried on top of the chunk duration
+  assert.equal(fitChunkDuration(300, 100000, 25 * MB, 5), 230);
+});
+
+test('fitChunkDuration leaves the duration alone without a limit or bitrate', () => {
+  assert.equal(fitChunkDuration(300, 100000, Infinity), 300);
+  assert.equal(fitChunkDuration(300, 0, 25 * MB), 300);
+});
+
+test('fitChunkDuration refuses chunks shorter than 10 seconds', () => {
+  // 90% of 25 MB at 2.4 MB/s is 9.8 seconds
+  assert.throws(() => fitChunkDuration(300, 2400000, 25 * MB), /shorter than 10 seconds/);
+  // 20 seconds fit, but only 10 of them are new audio after the overlap
+  assert.equal(fitChunkDuration(300, (25 * MB * 0.9) / 21, 25 * MB, 10), 11);
+  assert.throws(() => fitChunkDuration(300, (25 * MB * 0.9) / 20, 25 * MB, 10), /shorter than 10 seconds/);
+});
+
+test('shrinkChunkDuration cuts again at the bitrate of the largest chunk', () => {
+  // A 300 second chunk of 28 MB is 97.9 kB/s, 90% of 25 MB holds 241 seconds of it
+  assert.equal(shrinkChunkDuration(300, 28 * MB, 25 * MB), 241);
+  // With 10 seconds of overlap the chunk covered 310 seconds
+  assert.equal(shrinkChunkDuration(300, 28 * MB, 25 * MB, 10), 239);
+  // Just over the limit still shortens the chunks
+  assert.ok(shrinkChunkDuration(300, 25 * MB + 1, 25 * MB) < 300);
+});
+
+test('shrinking gives up once chunks would drop under 10 seconds', () => {
+  assert.throws(() => shrinkChunkDuration(20, 60 * MB, 25 * MB), /shorter than 10 seconds/);
+});
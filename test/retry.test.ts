@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import OpenAI from 'openai';
+import pLimit from 'p-limit';
+import { isRetryableError, retryAfterMs, withRetry } from '../src/lib/retry';
+
+const apiError = (status: number, headers: Record<string, string> = {}, code?: string) =>
+  new OpenAI.APIError(status, code ? { code } : undefined, `${status}`, headers);
+
+test('isRetryableError retries transient failures only', () => {
+  assert.equal(isRetryableError(apiError(429)), true);
+  assert.equal(isRetryableError(apiError(500)), true);
+  assert.equal(isRetryableError(apiError(503)), true);
+  assert.equal(isRetryableError(apiError(408)), true);
+  assert.equal(isRetryableError(new OpenAI.APIConnectionError({ message: 'reset' })), true);
+  assert.equal(isRetryableError(Object.assign(new Error('socket'), { code: 'ECONNRESET' })), true);
+  assert.equal(isRetryableError(new TypeError('fetch failed')), true);
+
+  assert.equal(isRetryableError(apiError(429, {}, 'insufficient_quota')), false);
+  assert.equal(isRetryableError(apiError(400)), false);
+  assert.equal(isRetryableError(apiError(401)), false);
+  assert.equal(isRetryableError(new OpenAI.APIUserAbortError()), false);
+  assert.equal(isRetryableError(new Error('bad input')), false);
+});
+
+test('retryAfterMs reads retry-after-ms, seconds and HTTP dates', () => {
+  assert.equal(retryAfterMs(apiError(429, { 'retry-after-ms': '1500' })), 1500);
+  assert.equal(retryAfterMs(apiError(429, { 'retry-after': '3' })), 3000);
+  const date = new Date(Date.now() + 10000).toUTCString();
+  const wait = retryAfterMs(apiError(429, { 'retry-after': date }))!;
+  assert.ok(wait > 8000 && wait <= 10000, `unexpected wait ${wait}`);
+  assert.equal(retryAfterMs(apiError(429, { 'retry-after': 'soon' })), undefined);
+  assert.equal(retryAfterMs(apiError(429)), undefined);
+  assert.equal(retryAfterMs(new Error('no headers')), undefined);
+});
+
+test('withRetry retries until the request succeeds', async () => {
+  let attempts = 0;
+  const result = await withRetry('Test', async () => {
+    attempts++;
+    if (attempts < 3) throw apiError(500);
+    return 'ok';
+  }, { baseDelay: 1 });
+  assert.equal(result, 'ok');
+  assert.equal(attempts, 3);
+});
+
+test('withRetry gives up on errors that are not retryable', async () => {
+  let attempts = 0;
+  await assert.rejects(withRetry('Test', async () => {
+    attempts++;
+    throw apiError(400);
+  }, { baseDelay: 1 }));
+  assert.equal(attempts, 1);
+});
+
+test('rate limiting halves the concurrency and successes raise it again', async () => {
+  const limit = pLimit(4);
+  let limited = false;
+  await withRetry('Test', async () => {
+    if (!limited) {
+      limited = true;
+      throw apiError(429, { 'retry-after-ms': '1' });
+    }
+    return 'ok';
+  }, { limit });
+  assert.equal(limit.concurrency, 2);
+
+  // Five successes per unit of concurrency before it is raised by one, the retried request was the first
+  for (let i = 0; i < 8; i++) {
+    await withRetry('Test', async () => 'ok', { limit });
+  }
+  assert.equal(limit.concurrency, 2);
+  await withRetry('Test', async () => 'ok', { limit });
+  assert.equal(limit.concurrency, 3);
+});
+
+test('the limiter slot is free while a request waits to retry', async () => {
+  const limit = pLimit(1);
+  const order: string[] = [];
+  let failed = false;
+  const slow = withRetry('Slow', async () => {
+    if (!failed) {
+      failed = true;
+      order.push('slow failed');
+      throw apiError(500, { 'retry-after-ms': '50' });
+    }
+    order.push('slow done');
+    return 'slow';
+  }, { limit });
+  // Queued behind the first attempt, runs during its backoff
+  const fast = withRetry('Fast', async () => {
+    order.push('fast done');
+    return 'fast';
+  }, { limit });
+
+  assert.deepEqual(await Promise.all([slow, fast]), ['slow', 'fast']);
+  assert.deepEqual(order, ['slow failed', 'fast done', 'slow done']);
+});
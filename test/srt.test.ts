@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { convertSegmentsToSrtEntries } from '../src/lib/srt';
+import { WhisperSegment } from '../src/lib/types';
+
+const segment = (start: number, end: number, text: string): WhisperSegment => ({
+  id: 0,
+  seek: 0,
+  start,
+  end,
+  text,
+  tokens: [],
+  temperature: 0,
+  avg_logprob: 0,
+  compression_ratio: 0,
+  no_speech_prob: 0
+});
+
+const segments = [segment(0, 2, ' Hello.'), segment(2, 4.5, ' World. ')];
+
+test('segments are offset by the chunk start and numbered from the start index', () => {
+  assert.deepEqual(convertSegmentsToSrtEntries(segments, { offset: 297.5, startIndex: 5 }), [
+    { index: 5, startTime: 297.5, endTime: 299.5, text: 'Hello.' },
+    { index: 6, startTime: 299.5, endTime: 302, text: 'World.' }
+  ]);
+});
+
+test('word timestamps are offset and attached to their entries', () => {
+  const entries = convertSegmentsToSrtEntries(segments, {
+    offset: 10,
+    words: [{ word: ' Hello.', start: 0, end: 1.5 }, { word: ' World.', start: 2.2, end: 4 }]
+  });
+  assert.deepEqual(entries.map(entry => entry.words), [
+    [{ word: 'Hello.', start: 10, end: 11.5 }],
+    [{ word: 'World.', start: 12.2, end: 14 }]
+  ]);
+});
+
+test('the chunk index and duration signature still works', () => {
+  assert.deepEqual(convertSegmentsToSrtEntries(segments, 2, 300, 10), [
+    { index: 10, startTime: 600, endTime: 602, text: 'Hello.' },
+    { index: 11, startTime: 602, endTime: 604.5, text: 'World.' }
+  ]);
+});
@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TranscribeOptions, useSegmentFlow } from '../src/commands/transcribe';
+import { OpenAIProvider } from '../src/lib/providers/openai';
+
+const options = (overrides: Partial<TranscribeOptions>) => ({ outputFormat: 'text', ...overrides }) as TranscribeOptions;
+const gpt4o = new OpenAIProvider('openai', 'gpt-4o-transcribe');
+const whisper = new OpenAIProvider('openai', 'whisper-1');
+
+test('gpt-4o models transcribe json output as plain text, without segments', () => {
+  assert.equal(gpt4o.segments, false);
+  assert.equal(useSegmentFlow(options({ outputFormat: 'json' }), gpt4o), false);
+  assert.equal(useSegmentFlow(options({ outputFormat: 'json' }), whisper), true);
+});
+
+test('a kept timeline is only requested from models that return segments', () => {
+  assert.equal(useSegmentFlow(options({ timeline: true }), gpt4o), false);
+  assert.equal(useSegmentFlow(options({ timeline: true }), whisper), true);
+  assert.equal(useSegmentFlow(options({}), whisper), false);
+});
+
+test('subtitles, chapters and word timing are rejected for models without segments', () => {
+  assert.throws(() => useSegmentFlow(options({ outputFormat: 'srt' }), gpt4o), /gpt-4o-transcribe does not return segment timestamps, which srt output needs/);
+  assert.throws(() => useSegmentFlow(options({ outputFormat: 'json', chapters: true }), gpt4o), /which --chapters needs/);
+  assert.throws(() => useSegmentFlow(options({ wordTimestamps: true }), gpt4o), /which --word-timestamps needs/);
+  assert.equal(useSegmentFlow(options({ outputFormat: 'srt' }), whisper), true);
+});
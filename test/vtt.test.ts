@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { entriesToVttString } from '../src/lib/subtitles/vtt';
+import { SrtEntry } from '../src/lib/types';
+
+const cueText = (entry: SrtEntry) => entriesToVttString([entry]).split('\n')[4];
+
+test('each timed word after the first gets an inline timestamp', () => {
+  assert.equal(
+    cueText({
+      index: 1,
+      startTime: 1,
+      endTime: 3,
+      text: 'Hello big world',
+      words: [{ word: 'Hello', start: 1, end: 1.4 }, { word: 'big', start: 1.5, end: 1.9 }, { word: 'world', start: 2, end: 2.8 }]
+    }),
+    'Hello <00:00:01.500>big <00:00:02.000>world'
+  );
+});
+
+test('word timestamps outside the cue are clamped and not written', () => {
+  assert.equal(
+    cueText({
+      index: 1,
+      startTime: 10,
+      endTime: 12,
+      text: 'Early words and late ones',
+      words: [
+        { word: 'Early', start: 9.2, end: 9.6 },
+        { word: 'words', start: 9.7, end: 10.2 },
+        { word: 'and', start: 10.5, end: 10.8 },
+        { word: 'late', start: 12, end: 12.3 },
+        { word: 'ones', start: 12.4, end: 12.9 }
+      ]
+    }),
+    'Early words <00:00:10.500>and late ones'
+  );
+});
+
+test('inline timestamps never go backwards', () => {
+  assert.equal(
+    cueText({
+      index: 1,
+      startTime: 0,
+      endTime: 5,
+      text: 'one two three four',
+      words: [
+        { word: 'one', start: 0, end: 1 },
+        { word: 'two', start: 3, end: 3.5 },
+        { word: 'three', start: 2, end: 2.5 },
+        { word: 'four', start: 2.5, end: 4 }
+      ]
+    }),
+    'one <00:00:03.000>two three four'
+  );
+});
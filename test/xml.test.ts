@@ -0,0 +1,11 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeXmlEntities } from '../src/lib/xml';
+
+test('named and numeric entities are decoded', () => {
+  assert.equal(decodeXmlEntities('Tom &amp; Jerry &lt;3 &#233;t&#xE9; &#x1F600;'), 'Tom & Jerry <3 été 😀');
+});
+
+test('unknown and out-of-range references are kept as they are', () => {
+  assert.equal(decodeXmlEntities('&bogus; &#x110000; &#99999999999;'), '&bogus; &#x110000; &#99999999999;');
+});